@@ -1,4 +1,3 @@
-import React from "react";
 import ImageToPdf from "./components/ImageToPdf"; // adjust path if needed
 
 function App() {
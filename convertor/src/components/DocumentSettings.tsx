@@ -0,0 +1,84 @@
+import type { DocumentMetadata } from "../lib";
+import { fieldClass } from "./fieldStyles";
+
+type DocumentSettingsProps = {
+  metadata: DocumentMetadata;
+  // Shown as the title placeholder, since an empty title falls back to it
+  defaultTitle: string;
+  bookmarks: boolean;
+  // Outline headings per source folder
+  folderSections: boolean;
+  coverPage: boolean;
+  onMetadataChange: (metadata: DocumentMetadata) => void;
+  onBookmarksChange: (bookmarks: boolean) => void;
+  onFolderSectionsChange: (folderSections: boolean) => void;
+  onCoverPageChange: (coverPage: boolean) => void;
+};
+
+const fields: { key: keyof DocumentMetadata; label: string; placeholder?: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "author", label: "Author", placeholder: "Your name" },
+  { key: "subject", label: "Subject", placeholder: "What the document is about" },
+  { key: "keywords", label: "Keywords", placeholder: "receipts, 2024, travel" }
+];
+
+// PDF properties, outline and cover page settings
+export default function DocumentSettings({
+  metadata,
+  defaultTitle,
+  bookmarks,
+  folderSections,
+  coverPage,
+  onMetadataChange,
+  onBookmarksChange,
+  onFolderSectionsChange,
+  onCoverPageChange,
+}: DocumentSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {fields.map((field) => (
+          <label key={field.key} className="space-y-1">
+            <span className="text-xs font-semibold text-gray-400">{field.label}</span>
+            <input
+              type="text"
+              value={metadata[field.key] ?? ""}
+              placeholder={field.key === "title" ? defaultTitle : field.placeholder}
+              onChange={(e) => onMetadataChange({ ...metadata, [field.key]: e.target.value })}
+              className={fieldClass}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={bookmarks}
+            onChange={(e) => onBookmarksChange(e.target.checked)}
+            className="w-4 h-4 accent-purple-500"
+          />
+          <span>Bookmark every image</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={folderSections}
+            onChange={(e) => onFolderSectionsChange(e.target.checked)}
+            className="w-4 h-4 accent-purple-500"
+          />
+          <span>Bookmark section per dropped folder</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={coverPage}
+            onChange={(e) => onCoverPageChange(e.target.checked)}
+            className="w-4 h-4 accent-purple-500"
+          />
+          <span>Cover page with table of contents</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import type { ImageFilters } from "../lib";
+import { fieldClass } from "./fieldStyles";
+
+type FilterSettingsProps = {
+  filters: ImageFilters;
+  // The global filters, given when editing a single image; unset fields then fall back to them
+  defaults?: ImageFilters;
+  onChange: (filters: ImageFilters) => void;
+};
+
+type Toggle = "grayscale" | "threshold" | "autoLevels" | "deskew";
+type Slider = "brightness" | "contrast";
+
+const toggles: { key: Toggle; label: string }[] = [
+  { key: "autoLevels", label: "Auto levels" },
+  { key: "grayscale", label: "Grayscale" },
+  { key: "threshold", label: "Black & white (text)" },
+  { key: "deskew", label: "Straighten tilted text" },
+];
+
+const sliders: { key: Slider; label: string }[] = [
+  { key: "brightness", label: "Brightness" },
+  { key: "contrast", label: "Contrast" },
+];
+
+// Enhancement filters for every image, or for one image on top of the global ones
+export default function FilterSettings({ filters, defaults, onChange }: FilterSettingsProps) {
+  // Setting a field back to undefined removes it, so an image follows the global filters again
+  const update = (changes: ImageFilters) => {
+    const next: ImageFilters = { ...filters, ...changes };
+    (Object.keys(next) as (keyof ImageFilters)[]).forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4 w-full">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {toggles.map(({ key, label }) =>
+          defaults ? (
+            <label key={key} className="space-y-1">
+              <span className="text-xs font-semibold text-gray-400">{label}</span>
+              <select
+                value={filters[key] === undefined ? "" : filters[key] ? "on" : "off"}
+                onChange={(e) => update({ [key]: e.target.value ? e.target.value === "on" : undefined })}
+                className={fieldClass}
+              >
+                <option value="" className="bg-gray-800">Default ({defaults[key] ? "on" : "off"})</option>
+                <option value="on" className="bg-gray-800">On</option>
+                <option value="off" className="bg-gray-800">Off</option>
+              </select>
+            </label>
+          ) : (
+            <label key={key} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!filters[key]}
+                onChange={(e) => update({ [key]: e.target.checked || undefined })}
+                className="w-4 h-4 accent-purple-500"
+              />
+              <span>{label}</span>
+            </label>
+          )
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {sliders.map(({ key, label }) => {
+          const value = filters[key] ?? defaults?.[key] ?? 0;
+          const overridden = defaults && filters[key] !== undefined;
+          return (
+            <label key={key} className="space-y-1">
+              <span className="flex justify-between text-xs font-semibold text-gray-400">
+                <span>{label}{defaults && !overridden ? " (default)" : ""}</span>
+                <span>{value > 0 ? `+${value}` : value}</span>
+              </span>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="range"
+                  min={-100}
+                  max={100}
+                  step={5}
+                  value={value}
+                  onChange={(e) => update({ [key]: defaults ? Number(e.target.value) : Number(e.target.value) || undefined })}
+                  className="w-full accent-purple-500"
+                />
+                {overridden && (
+                  <button
+                    onClick={(e) => {
+                      // The slider sits inside the label, so keep the click from reaching it
+                      e.preventDefault();
+                      update({ [key]: undefined });
+                    }}
+                    className="text-xs text-gray-400 hover:text-white whitespace-nowrap"
+                  >
+                    Default
+                  </button>
+                )}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      {(filters.threshold || (filters.threshold === undefined && defaults?.threshold)) && (
+        <p className="text-xs text-gray-500">
+          Black & white compares each pixel with its surroundings, so shadows and uneven light don't swallow the text.
+          It works best on printed or handwritten pages, not photos.
+        </p>
+      )}
+    </div>
+  );
+}
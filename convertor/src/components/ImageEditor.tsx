@@ -0,0 +1,490 @@
+import React, { useState, useRef, useEffect } from "react";
+import FilterSettings from "./FilterSettings";
+import {
+  detectDocument,
+  flipEdits,
+  hasEdits,
+  readExifOrientation,
+  renderEditedPreview,
+  resolveFilters,
+  rotateEdits,
+  NO_EDITS,
+  type CropRect,
+  type ExifOrientation,
+  type ImageEdits,
+  type ImageFilters,
+  type Quad,
+} from "../lib";
+
+type ImageEditorProps = {
+  file: Blob;
+  name: string;
+  edits: ImageEdits;
+  // Global filters, which this image's own filters are set on top of
+  defaultFilters: ImageFilters;
+  onChange: (edits: ImageEdits) => void;
+};
+
+type DragMode = "move" | "nw" | "ne" | "sw" | "se" | "draw";
+
+type DragState = {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+};
+
+// Width / height ratios offered for locked crops, null is a free crop
+const aspectRatios: { value: string; label: string; ratio: number | null }[] = [
+  { value: "free", label: "Free", ratio: null },
+  { value: "1:1", label: "Square (1:1)", ratio: 1 },
+  { value: "4:3", label: "4:3", ratio: 4 / 3 },
+  { value: "3:4", label: "3:4", ratio: 3 / 4 },
+  { value: "16:9", label: "16:9", ratio: 16 / 9 },
+  { value: "a4-portrait", label: "A4 Portrait", ratio: 210 / 297 },
+  { value: "a4-landscape", label: "A4 Landscape", ratio: 297 / 210 },
+];
+
+// Starting corners when no page is found, for the user to drag onto it
+const DEFAULT_CORNERS: Quad = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 },
+];
+
+const cornerLabels = ["Top left", "Top right", "Bottom right", "Bottom left"];
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+// Largest centred crop with the given pixel aspect ratio
+const fitAspect = (ratio: number | null, imageW: number, imageH: number): CropRect => {
+  if (!ratio) return { x: 0, y: 0, width: 1, height: 1 };
+  const fractionRatio = (ratio * imageH) / imageW;
+  const width = fractionRatio >= 1 ? 1 : fractionRatio;
+  const height = fractionRatio >= 1 ? 1 / fractionRatio : 1;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+// Rectangle spanned from an anchor to the pointer, kept inside the image and the aspect ratio
+const rectFromPoints = (
+  anchor: { x: number; y: number },
+  point: { x: number; y: number },
+  fractionRatio: number | null
+): CropRect => {
+  const dirX = point.x >= anchor.x ? 1 : -1;
+  const dirY = point.y >= anchor.y ? 1 : -1;
+  const maxW = dirX > 0 ? 1 - anchor.x : anchor.x;
+  const maxH = dirY > 0 ? 1 - anchor.y : anchor.y;
+
+  let width = Math.min(Math.abs(point.x - anchor.x), maxW);
+  let height = Math.min(Math.abs(point.y - anchor.y), maxH);
+
+  if (fractionRatio) {
+    if (width / (height || 1e-6) > fractionRatio) width = height * fractionRatio;
+    else height = width / fractionRatio;
+    if (width > maxW) {
+      width = maxW;
+      height = width / fractionRatio;
+    }
+    if (height > maxH) {
+      height = maxH;
+      width = height * fractionRatio;
+    }
+  }
+
+  return {
+    x: dirX > 0 ? anchor.x : anchor.x - width,
+    y: dirY > 0 ? anchor.y : anchor.y - height,
+    width,
+    height,
+  };
+};
+
+const toolButtonClass = "px-3 py-2 rounded-xl text-sm text-white flex items-center space-x-2 transition-all duration-300 bg-gradient-to-r from-purple-600/20 to-blue-600/20 hover:from-purple-600/40 hover:to-blue-600/40 border border-white/10";
+
+export default function ImageEditor({ file, name, edits, defaultFilters, onChange }: ImageEditorProps) {
+  const [displayUrl, setDisplayUrl] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number }>({ width: 1, height: 1 });
+  const [exifOrientation, setExifOrientation] = useState<ExifOrientation>(1);
+  const [isCropping, setIsCropping] = useState<boolean>(false);
+  const [aspect, setAspect] = useState<string>("free");
+  const [draftCrop, setDraftCrop] = useState<CropRect | null>(null);
+  const [isAdjustingCorners, setIsAdjustingCorners] = useState<boolean>(false);
+  const [draftCorners, setDraftCorners] = useState<Quad | null>(null);
+  const [isDetecting, setIsDetecting] = useState<boolean>(false);
+  const [cornerMessage, setCornerMessage] = useState<string | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Corner being dragged while adjusting the page outline
+  const cornerDragRef = useRef<number | null>(null);
+
+  const ratio = aspectRatios.find((option) => option.value === aspect)?.ratio ?? null;
+  const fractionRatio = ratio ? (ratio * imageSize.height) / imageSize.width : null;
+  const crop = draftCrop ?? edits.crop ?? null;
+  const corners = draftCorners ?? edits.perspective ?? null;
+  // Corners are placed on the photo as taken, everything else on the flattened page
+  const shownPerspective = isAdjustingCorners ? undefined : edits.perspective;
+  // Tones are previewed here; deskew depends on the crop, so it only shows in the grid thumbnail.
+  // Serialized so the preview only redraws when the filters really change.
+  const shownFilters = JSON.stringify({ ...resolveFilters(defaultFilters, edits.filters), deskew: undefined });
+
+  useEffect(() => {
+    readExifOrientation(file).then(setExifOrientation).catch(() => setExifOrientation(1));
+  }, [file]);
+
+  // Show the oriented image uncropped, the crop itself is drawn as an overlay
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    const shown = {
+      rotation: edits.rotation,
+      flip: edits.flip,
+      autoOrient: edits.autoOrient,
+      perspective: shownPerspective,
+      filters: JSON.parse(shownFilters) as ImageFilters,
+    };
+    renderEditedPreview(file, shown, 1600)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setDisplayUrl(url);
+      })
+      .catch((error) => console.error("Error rendering image:", error));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, edits.rotation, edits.flip, edits.autoOrient, shownPerspective, shownFilters]);
+
+  const pointerToFraction = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    const point = pointerToFraction(e);
+    dragRef.current = {
+      mode,
+      startX: point.x,
+      startY: point.y,
+      startCrop: crop ?? { x: point.x, y: point.y, width: 0, height: 0 },
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = pointerToFraction(e);
+    const start = drag.startCrop;
+
+    switch (drag.mode) {
+      case "move":
+        setDraftCrop({
+          ...start,
+          x: clamp(start.x + point.x - drag.startX, 0, 1 - start.width),
+          y: clamp(start.y + point.y - drag.startY, 0, 1 - start.height),
+        });
+        break;
+      case "draw":
+        setDraftCrop(rectFromPoints({ x: drag.startX, y: drag.startY }, point, fractionRatio));
+        break;
+      default: {
+        // Resize from a corner while the opposite corner stays put
+        const anchor = {
+          x: drag.mode.endsWith("w") ? start.x + start.width : start.x,
+          y: drag.mode.startsWith("n") ? start.y + start.height : start.y,
+        };
+        setDraftCrop(rectFromPoints(anchor, point, fractionRatio));
+      }
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    overlayRef.current?.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+    // Ignore accidental clicks that would produce an empty crop
+    if (draftCrop && draftCrop.width > 0.01 && draftCrop.height > 0.01) {
+      onChange({ ...edits, crop: draftCrop });
+    }
+    setDraftCrop(null);
+  };
+
+  const startCornerDrag = (corner: number) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    cornerDragRef.current = corner;
+  };
+
+  const handleCornerMove = (e: React.PointerEvent) => {
+    const corner = cornerDragRef.current;
+    if (corner === null || !corners) return;
+    const next = [...corners] as Quad;
+    next[corner] = pointerToFraction(e);
+    setDraftCorners(next);
+  };
+
+  const handleCornerUp = (e: React.PointerEvent) => {
+    if (cornerDragRef.current === null) return;
+    overlayRef.current?.releasePointerCapture(e.pointerId);
+    cornerDragRef.current = null;
+    if (draftCorners) onChange({ ...edits, perspective: draftCorners });
+    setDraftCorners(null);
+  };
+
+  // Find the page again, replacing corners placed by hand.
+  // A crop drawn on the old page wouldn't fit the new one, so it goes too.
+  const detectCorners = async () => {
+    setIsDetecting(true);
+    setCornerMessage(null);
+    try {
+      const found = await detectDocument(file, edits);
+      if (!found) setCornerMessage("No page found. Drag the corners onto the page's corners.");
+      onChange({ ...edits, perspective: found ?? edits.perspective ?? DEFAULT_CORNERS, crop: undefined });
+    } catch (error) {
+      console.error("Error detecting page:", error);
+      setCornerMessage("The page could not be detected in this image.");
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const toggleCorners = () => {
+    if (!isAdjustingCorners && !edits.perspective) detectCorners();
+    setIsCropping(false);
+    setCornerMessage(null);
+    setIsAdjustingCorners(!isAdjustingCorners);
+  };
+
+  const removeCorners = () => {
+    setIsAdjustingCorners(false);
+    setCornerMessage(null);
+    onChange({ ...edits, perspective: undefined, crop: undefined });
+  };
+
+  const toggleCropping = () => {
+    setIsAdjustingCorners(false);
+    if (!isCropping && !edits.crop) {
+      onChange({ ...edits, crop: fitAspect(ratio, imageSize.width, imageSize.height) });
+    }
+    setIsCropping(!isCropping);
+  };
+
+  const changeAspect = (value: string) => {
+    setAspect(value);
+    const nextRatio = aspectRatios.find((option) => option.value === value)?.ratio ?? null;
+    if (nextRatio) onChange({ ...edits, crop: fitAspect(nextRatio, imageSize.width, imageSize.height) });
+  };
+
+  const reset = () => {
+    setIsCropping(false);
+    setIsAdjustingCorners(false);
+    setCornerMessage(null);
+    onChange(NO_EDITS);
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-4 w-full">
+      {/* Editor Toolbar */}
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button onClick={() => onChange(rotateEdits(edits, -1))} className={toolButtonClass} title="Rotate left">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+          </svg>
+          <span>Rotate Left</span>
+        </button>
+        <button onClick={() => onChange(rotateEdits(edits, 1))} className={toolButtonClass} title="Rotate right">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+          </svg>
+          <span>Rotate Right</span>
+        </button>
+        <button onClick={() => onChange(flipEdits(edits, "horizontal"))} className={toolButtonClass} title="Flip horizontally">
+          <span>↔</span>
+          <span>Flip H</span>
+        </button>
+        <button onClick={() => onChange(flipEdits(edits, "vertical"))} className={toolButtonClass} title="Flip vertically">
+          <span>↕</span>
+          <span>Flip V</span>
+        </button>
+        <button
+          onClick={toggleCorners}
+          className={`${toolButtonClass} ${isAdjustingCorners ? 'ring-2 ring-purple-400' : ''}`}
+          title="Straighten a photographed page"
+        >
+          <span>📄</span>
+          <span>{isAdjustingCorners ? "Done Straightening" : "Straighten Page"}</span>
+        </button>
+        {isAdjustingCorners && (
+          <button onClick={detectCorners} disabled={isDetecting} className={`${toolButtonClass} disabled:opacity-50`}>
+            <span>{isDetecting ? "Detecting..." : "Detect Page"}</span>
+          </button>
+        )}
+        {edits.perspective && (
+          <button onClick={removeCorners} className={toolButtonClass}>
+            <span>Remove Straightening</span>
+          </button>
+        )}
+        <button
+          onClick={toggleCropping}
+          className={`${toolButtonClass} ${isCropping ? 'ring-2 ring-purple-400' : ''}`}
+          title="Crop"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 2v14a2 2 0 002 2h14M18 22V8a2 2 0 00-2-2H2" />
+          </svg>
+          <span>{isCropping ? "Done Cropping" : "Crop"}</span>
+        </button>
+        {isCropping && (
+          <select
+            value={aspect}
+            onChange={(e) => changeAspect(e.target.value)}
+            className="px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-xl text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {aspectRatios.map((option) => (
+              <option key={option.value} value={option.value} className="bg-gray-800">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {edits.crop && (
+          <button onClick={() => onChange({ ...edits, crop: undefined })} className={toolButtonClass}>
+            <span>Remove Crop</span>
+          </button>
+        )}
+        {hasEdits(edits) && (
+          <button onClick={reset} className={`${toolButtonClass} text-red-300`}>
+            <span>Reset</span>
+          </button>
+        )}
+      </div>
+
+      {/* Editable Image */}
+      <div className="relative inline-block select-none">
+        {displayUrl ? (
+          <img
+            src={displayUrl}
+            alt={name}
+            onLoad={(e) => setImageSize({
+              width: e.currentTarget.naturalWidth,
+              height: e.currentTarget.naturalHeight,
+            })}
+            className="max-h-[55vh] max-w-full object-contain rounded-xl shadow-2xl block"
+            draggable={false}
+          />
+        ) : (
+          <div className="w-12 h-12 border-4 border-purple-400 border-t-transparent rounded-full animate-spin"></div>
+        )}
+
+        {/* Page Corners */}
+        {displayUrl && isAdjustingCorners && corners && (
+          <div
+            ref={overlayRef}
+            className="absolute inset-0 overflow-hidden rounded-xl"
+            onPointerMove={handleCornerMove}
+            onPointerUp={handleCornerUp}
+          >
+            <svg className="absolute inset-0 w-full h-full" viewBox="0 0 1 1" preserveAspectRatio="none">
+              <path
+                d={`M0 0H1V1H0Z M${corners.map((p) => `${p.x} ${p.y}`).join(" L")}Z`}
+                fill="rgba(0, 0, 0, 0.5)"
+                fillRule="evenodd"
+              />
+              <polygon
+                points={corners.map((p) => `${p.x},${p.y}`).join(" ")}
+                fill="none"
+                stroke="rgba(255, 255, 255, 0.9)"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            {corners.map((p, i) => (
+              <div
+                key={i}
+                onPointerDown={startCornerDrag(i)}
+                title={cornerLabels[i]}
+                className="absolute w-5 h-5 -ml-2.5 -mt-2.5 bg-white border-2 border-purple-500 rounded-full shadow-lg cursor-move touch-none"
+                style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Crop Overlay */}
+        {displayUrl && !isAdjustingCorners && (isCropping || crop) && (
+          <div
+            ref={overlayRef}
+            className={`absolute inset-0 overflow-hidden rounded-xl ${isCropping ? 'cursor-crosshair' : 'pointer-events-none'}`}
+            onPointerDown={isCropping ? startDrag("draw") : undefined}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {crop && (
+              <div
+                className={`absolute border-2 border-white/90 ${isCropping ? 'cursor-move' : ''}`}
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.6)",
+                }}
+                onPointerDown={isCropping ? startDrag("move") : undefined}
+              >
+                {isCropping && (["nw", "ne", "sw", "se"] as const).map((corner) => (
+                  <div
+                    key={corner}
+                    onPointerDown={startDrag(corner)}
+                    className={`absolute w-4 h-4 bg-white rounded-full shadow-lg
+                      ${corner.startsWith("n") ? '-top-2' : '-bottom-2'}
+                      ${corner.endsWith("w") ? '-left-2' : '-right-2'}
+                      ${corner === "nw" || corner === "se" ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isAdjustingCorners && (
+        <p className="text-sm text-gray-400 text-center">
+          {cornerMessage ?? "Drag the corners onto the page's corners. The page is flattened and cropped to them."}
+        </p>
+      )}
+
+      {/* Filters */}
+      <div className="w-full bg-black/20 rounded-xl p-4 border border-white/5">
+        <h4 className="text-sm font-semibold text-gray-300 mb-3">Filters for this image</h4>
+        <FilterSettings
+          filters={edits.filters ?? {}}
+          defaults={defaultFilters}
+          onChange={(filters) => onChange({ ...edits, filters: Object.keys(filters).length ? filters : undefined })}
+        />
+      </div>
+
+      {/* EXIF Orientation */}
+      {exifOrientation !== 1 && (
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={edits.autoOrient !== false}
+            onChange={(e) => onChange({ ...edits, autoOrient: e.target.checked ? undefined : false })}
+            className="rounded accent-purple-500"
+          />
+          <span>Auto-orient from camera EXIF data</span>
+        </label>
+      )}
+    </div>
+  );
+}
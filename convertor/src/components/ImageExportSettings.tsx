@@ -0,0 +1,127 @@
+import type { ExportPackaging, ImageExportOptions, PdfRenderFormat } from "../lib";
+import { fieldClass } from "./fieldStyles";
+
+type ImageExportSettingsProps = {
+  options: ImageExportOptions;
+  pageRange: string;
+  // Why the page range can't be used, if it can't
+  pageRangeError?: string;
+  selectedCount: number;
+  pageCount: number;
+  packaging: ExportPackaging;
+  onOptionsChange: (options: ImageExportOptions) => void;
+  onPageRangeChange: (pageRange: string) => void;
+  onPackagingChange: (packaging: ExportPackaging) => void;
+};
+
+const formatOptions: { value: PdfRenderFormat; label: string }[] = [
+  { value: "png", label: "PNG (lossless)" },
+  { value: "jpeg", label: "JPEG (smaller)" }
+];
+
+const dpiPresets = [72, 150, 300, 600];
+
+const packagingOptions: { value: ExportPackaging; label: string }[] = [
+  { value: "zip", label: "One ZIP archive" },
+  { value: "files", label: "Individual files" }
+];
+
+// Format, resolution and page selection for turning PDF pages into images
+export default function ImageExportSettings({
+  options,
+  pageRange,
+  pageRangeError,
+  selectedCount,
+  pageCount,
+  packaging,
+  onOptionsChange,
+  onPageRangeChange,
+  onPackagingChange,
+}: ImageExportSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="space-y-1">
+          <span className="text-xs font-semibold text-gray-400">Format</span>
+          <select
+            value={options.format}
+            onChange={(e) => onOptionsChange({ ...options, format: e.target.value as PdfRenderFormat })}
+            className={fieldClass}
+          >
+            {formatOptions.map((option) => (
+              <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1">
+          <span className="text-xs font-semibold text-gray-400">Resolution (DPI)</span>
+          <div className="flex gap-2">
+            <select
+              value={dpiPresets.includes(options.dpi) ? options.dpi : ""}
+              onChange={(e) => e.target.value && onOptionsChange({ ...options, dpi: parseInt(e.target.value) })}
+              className={fieldClass}
+            >
+              {dpiPresets.map((dpi) => (
+                <option key={dpi} value={dpi} className="bg-gray-800">{dpi} DPI</option>
+              ))}
+              <option value="" className="bg-gray-800">Custom</option>
+            </select>
+            <input
+              type="number"
+              min={36}
+              max={1200}
+              value={options.dpi}
+              onChange={(e) => onOptionsChange({ ...options, dpi: Math.min(1200, Math.max(36, parseInt(e.target.value) || 36)) })}
+              className={`${fieldClass} w-24`}
+            />
+          </div>
+        </label>
+
+        <label className="space-y-1">
+          <span className="text-xs font-semibold text-gray-400">Download as</span>
+          <select
+            value={packaging}
+            onChange={(e) => onPackagingChange(e.target.value as ExportPackaging)}
+            className={fieldClass}
+          >
+            {packagingOptions.map((option) => (
+              <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="space-y-1">
+          <span className="text-xs font-semibold text-gray-400">Pages</span>
+          <input
+            type="text"
+            value={pageRange}
+            placeholder={`All ${pageCount} pages, or e.g. 1-3,7`}
+            onChange={(e) => onPageRangeChange(e.target.value)}
+            className={`${fieldClass} ${pageRangeError ? "border-red-500/70" : ""}`}
+          />
+          <span className={`block text-xs ${pageRangeError ? "text-red-300" : "text-gray-500"}`}>
+            {pageRangeError ?? `${selectedCount} of ${pageCount} pages, numbered as in the grid below`}
+          </span>
+        </label>
+
+        {options.format === "jpeg" && (
+          <label className="space-y-1">
+            <span className="text-xs font-semibold text-gray-400">JPEG quality: {Math.round(options.quality * 100)}%</span>
+            <input
+              type="range"
+              min="0.3"
+              max="1"
+              step="0.01"
+              value={options.quality}
+              onChange={(e) => onOptionsChange({ ...options, quality: parseFloat(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,106 @@
-import React, { useState, useRef, useEffect } from "react";
-import jsPDF from "jspdf";
+import React, { useState, useRef, useEffect, useMemo, useCallback } from "react";
+import ImageEditor from "./ImageEditor";
+import DocumentSettings from "./DocumentSettings";
+import LayoutOverridesPanel from "./LayoutOverridesPanel";
+import OverlaySettings from "./OverlaySettings";
+import SecuritySettings from "./SecuritySettings";
+import OcrSettings from "./OcrSettings";
+import ImageExportSettings from "./ImageExportSettings";
+import SplitSettings from "./SplitSettings";
+import ScanSettings from "./ScanSettings";
+import FilterSettings from "./FilterSettings";
+import PresetSettings from "./PresetSettings";
+import {
+  gridPresetOptions,
+  imageSizeOptions,
+  orientationOptions,
+  pageSizeOptions,
+  unitOptions,
+  type GridPreset,
+} from "./layoutOptions";
+import { dropIndex, moveItems, rangeBetween, toggleId } from "./gridSelection";
+import {
+  completeSettings,
+  storableSettings,
+  DEFAULT_SETTINGS,
+  type ConvertMode,
+  type PresetSettings as PresetValues,
+  type SessionSettings,
+} from "./sessionSettings";
+import {
+  clearConversionCache,
+  clearSession,
+  convertInWorker,
+  createProjectFile,
+  detectDocument,
+  downloadBlob,
+  estimateInWorker,
+  ConversionCancelledError,
+  downloadImages,
+  downloadPdfs,
+  detectFormat,
+  exportImages,
+  getStorageUsage,
+  importFiles,
+  isSessionStorageSupported,
+  loadSession,
+  parsePageRanges,
+  persistStorage,
+  readDroppedFiles,
+  readPickedFolder,
+  readProjectFile,
+  placeImage,
+  printDpi,
+  readImageInfo,
+  differingOverrides,
+  editedSize,
+  fromMm,
+  hasEdits,
+  renderEditedPreview,
+  rotateEdits,
+  saveSession,
+  withFilters,
+  toMm,
+  ACCEPTED_FILE_TYPES,
+  DEFAULT_DPI,
+  NO_EDITS,
+  type ConversionInput,
+  type DocumentMetadata,
+  type ImageEdits,
+  type ImageFilters,
+  type ImageInfo,
+  type LayoutOverrides,
+  type PageLayout,
+  type ItemStatus,
+  type RejectedFile,
+  type ConversionOptions,
+  type GridLayout,
+  type ImageSize,
+  type LengthUnit,
+  type Margins,
+  type OrientationSetting,
+  type PageDimensions,
+  type PageOverlays,
+  type PdfSecurity,
+  type PageSize,
+  type OcrLanguage,
+  type ExportPackaging,
+  type ImageExportOptions,
+  type PdfPageRef,
+  type SplitOptions,
+  type FolderFile,
+  type StorageUsage,
+  type StoredSession,
+} from "../lib";
+import { fieldClass } from "./fieldStyles";
+
+// How a multi-frame image turns into pages
+type FrameMode = "first" | "pick" | "all";
+
+type PreviewFrame = {
+  blob: Blob;
+  url: string;
+};
 
 // Type for preview objects
 type Preview = {
@@ -7,30 +108,288 @@ type Preview = {
   url: string;
   file: File;
   id: string;
+  frames?: PreviewFrame[];
+  frameMode?: FrameMode;
+  frameIndex?: number;
+  // Rotation, flip and crop applied when the page is rendered
+  edits?: ImageEdits;
+  // Thumbnail with the edits applied
+  editedUrl?: string;
+  // Page settings that win over the global settings for this image
+  layout?: LayoutOverrides;
+  // Resolution the decoder found in a file that no longer carries it, such as a TIFF page
+  sourceDpi?: number;
+  // Pixel size and stored resolution, read in the background after import
+  info?: ImageInfo;
+  // Bookmark title and grid caption, the file name when empty
+  caption?: string;
+  // Set when the image is a rendered page of an imported PDF
+  pdfPage?: PdfPageRef;
+  // Starts a new PDF when splitting at markers
+  splitBefore?: boolean;
+  // Folder the file was dropped or picked from, relative to the drop
+  folder?: string;
+};
+
+// A preview as saved with the session. Its file, frames and source PDF are saved as
+// separate blobs: the file under the preview id, frames under "id#index".
+type StoredPreview = Omit<Preview, "url" | "file" | "editedUrl" | "frames" | "pdfPage"> & {
+  frameCount?: number;
+  pdfPage?: { key: string; page: number };
+};
+
+type SessionManifest = {
+  previews: StoredPreview[];
+  settings: SessionSettings;
+};
+
+// Pages of one imported PDF share its file, so it is saved once under one key
+const pdfSourceKeys = new WeakMap<File, string>();
+
+const pdfSourceKey = (file: File) => {
+  let key = pdfSourceKeys.get(file);
+  if (!key) {
+    key = `pdf:${Math.random().toString(36).substr(2, 9)}`;
+    pdfSourceKeys.set(file, key);
+  }
+  return key;
+};
+
+const toSessionManifest = (previews: Preview[], settings: SessionSettings) => {
+  const blobs = new Map<string, Blob>();
+  const stored = previews.map((p): StoredPreview => {
+    blobs.set(p.id, p.file);
+    p.frames?.forEach((frame, i) => blobs.set(`${p.id}#${i}`, frame.blob));
+    const pdfKey = p.pdfPage && pdfSourceKey(p.pdfPage.file);
+    if (p.pdfPage && pdfKey) blobs.set(pdfKey, p.pdfPage.file);
+    return {
+      id: p.id,
+      name: p.name,
+      frameCount: p.frames?.length,
+      frameMode: p.frameMode,
+      frameIndex: p.frameIndex,
+      edits: p.edits,
+      layout: p.layout,
+      sourceDpi: p.sourceDpi,
+      info: p.info,
+      caption: p.caption,
+      pdfPage: p.pdfPage && pdfKey ? { key: pdfKey, page: p.pdfPage.page } : undefined,
+      splitBefore: p.splitBefore,
+      folder: p.folder,
+    };
+  });
+  const manifest: SessionManifest = { previews: stored, settings: storableSettings(settings) };
+  return { manifest, blobs };
+};
+
+// Previews back from a saved session, leaving out any whose file went missing
+const restorePreviews = ({ manifest, blobs }: StoredSession<SessionManifest>): Preview[] =>
+  manifest.previews.flatMap(({ frameCount, pdfPage, ...stored }): Preview[] => {
+    const file = blobs.get(stored.id);
+    if (!(file instanceof File)) return [];
+    const frameBlobs = Array.from({ length: frameCount ?? 0 }, (_, i) => blobs.get(`${stored.id}#${i}`));
+    const pdfFile = pdfPage && blobs.get(pdfPage.key);
+    if (pdfPage && pdfFile instanceof File) pdfSourceKeys.set(pdfFile, pdfPage.key);
+    return [{
+      ...stored,
+      file,
+      url: URL.createObjectURL(file),
+      frames: frameCount && frameBlobs.every(Boolean)
+        ? frameBlobs.map((blob) => ({ blob: blob!, url: URL.createObjectURL(blob!) }))
+        : undefined,
+      pdfPage: pdfPage && pdfFile instanceof File ? { file: pdfFile, page: pdfPage.page } : undefined,
+    }];
+  });
+
+// Quiet time after the last change before the session is saved
+const SESSION_SAVE_DELAY = 1000;
+
+// The images and settings at one point in time, for undo and redo
+type Snapshot = {
+  previews: Preview[];
+  settings: SessionSettings;
+};
+
+// A snapshot plus what changed since it, such as "reorder images"
+type HistoryEntry = Snapshot & { label: string };
+
+const HISTORY_LIMIT = 50;
+// Changes this close together, such as dragging a slider, are undone as one
+const HISTORY_GROUP_DELAY = 500;
+
+// Per-image fields the user changes; thumbnails and image info arrive on their own and aren't undone
+const undoableFields: (keyof Preview)[] = ["edits", "layout", "caption", "splitBefore", "frameMode", "frameIndex"];
+
+// What changed between two snapshots, or null when nothing worth undoing did
+const describeChange = (before: Snapshot, after: Snapshot): string | null => {
+  const beforeIds = new Set(before.previews.map((p) => p.id));
+  const afterIds = new Set(after.previews.map((p) => p.id));
+  if (before.previews.length && !after.previews.length) return "clear all";
+  if (after.previews.some((p) => !beforeIds.has(p.id))) return "add images";
+  if (before.previews.some((p) => !afterIds.has(p.id))) return "remove images";
+  if (before.previews.some((p, i) => p.id !== after.previews[i].id)) return "reorder images";
+  if (before.previews.some((p, i) => undoableFields.some((field) => p[field] !== after.previews[i][field]))) {
+    return "edit images";
+  }
+  if (before.settings !== after.settings) return "change settings";
+  return null;
+};
+
+// Release the object URLs of images that no snapshot refers to anymore
+const releasePreviews = (dropped: Snapshot[], kept: Snapshot[]) => {
+  const keptIds = new Set(kept.flatMap((snapshot) => snapshot.previews.map((p) => p.id)));
+  const released = new Set<string>();
+  dropped.forEach((snapshot) => snapshot.previews.forEach((p) => {
+    if (keptIds.has(p.id) || released.has(p.id)) return;
+    released.add(p.id);
+    revokePreview(p);
+  }));
+};
+
+// Marks drags that reorder the grid, as opposed to files dragged in from outside
+const GRID_DRAG_TYPE = "application/x-preview-ids";
+
+// Longest side of edited thumbnails in the grid
+const THUMBNAIL_SIZE = 480;
+
+// Pages printed below this resolution are flagged in the grid
+const LOW_PRINT_DPI = 150;
+
+// Lengths are stored in mm and shown in the chosen unit
+const displayLength = (mm: number, unit: LengthUnit) =>
+  Math.round(fromMm(mm, unit) * 100) / 100;
+
+// Object URLs are not garbage collected, so release them with the preview
+const revokePreview = (preview: Preview) => {
+  URL.revokeObjectURL(preview.url);
+  if (preview.editedUrl) URL.revokeObjectURL(preview.editedUrl);
+  preview.frames?.forEach((frame) => URL.revokeObjectURL(frame.url));
+};
+
+// Frames of a preview that become pages in the PDF
+const selectedFrames = (preview: Preview): number[] => {
+  if (!preview.frames) return [];
+  if (preview.frameMode === "all") return preview.frames.map((_, i) => i);
+  return [preview.frameMode === "pick" ? preview.frameIndex ?? 0 : 0];
 };
 
-type PageSize = "a4" | "letter" | "legal" | "a3";
-type PageOrientation = "portrait" | "landscape";
-type ImageSize = "fit" | "fill" | "original";
+// Page numbers picked for image export, or why the range can't be used
+const readPageRange = (text: string, pageCount: number): { pages: number[]; error?: string } => {
+  try {
+    return { pages: parsePageRanges(text, pageCount) };
+  } catch (error) {
+    return { pages: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Effective print resolution of a grid image, highlighted when it is low
+function PrintDpi({ dpi }: { dpi: number | null }) {
+  if (dpi === null) return null;
+  const low = dpi < LOW_PRINT_DPI;
+  return (
+    <span
+      className={low ? "text-amber-400 font-semibold" : "text-gray-400"}
+      title={low ? `Prints at ${Math.round(dpi)} DPI and may look blurry` : "Effective print resolution"}
+    >
+      {Math.round(dpi)} DPI
+    </span>
+  );
+}
+
+// Conversion state of a single image, keyed by preview id
+type ItemState = {
+  status: ItemStatus;
+  error?: string;
+};
+
+const statusBadges: Record<ItemStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-gray-700/90 text-gray-200" },
+  processing: { label: "Processing", className: "bg-blue-600/90 text-white animate-pulse" },
+  done: { label: "Done", className: "bg-green-600/90 text-white" },
+  failed: { label: "Failed", className: "bg-red-600/90 text-white" },
+};
 
 export default function ImageToPdf() {
   const [files, setFiles] = useState<File[]>([]);
   const [previews, setPreviews] = useState<Preview[]>([]);
   const [isConverting, setIsConverting] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [pageSize, setPageSize] = useState<PageSize>("a4");
-  const [orientation, setOrientation] = useState<PageOrientation>("portrait");
-  const [imageSize, setImageSize] = useState<ImageSize>("fit");
-  const [margin, setMargin] = useState<number>(10);
-  const [quality, setQuality] = useState<number>(1);
-  const [fileName, setFileName] = useState<string>("images-to-pdf");
+  const [pageSize, setPageSize] = useState<PageSize>(DEFAULT_SETTINGS.pageSize);
+  const [orientation, setOrientation] = useState<OrientationSetting>(DEFAULT_SETTINGS.orientation);
+  const [imageSize, setImageSize] = useState<ImageSize>(DEFAULT_SETTINGS.imageSize);
+  const [margin, setMargin] = useState<number>(DEFAULT_SETTINGS.margin);
+  const [sideMargins, setSideMargins] = useState<Margins | null>(DEFAULT_SETTINGS.sideMargins);
+  const [customSize, setCustomSize] = useState<PageDimensions>(DEFAULT_SETTINGS.customSize);
+  const [unit, setUnit] = useState<LengthUnit>(DEFAULT_SETTINGS.unit);
+  const [gridPreset, setGridPreset] = useState<GridPreset>(DEFAULT_SETTINGS.gridPreset);
+  const [grid, setGrid] = useState<GridLayout>(DEFAULT_SETTINGS.grid);
+  const [quality, setQuality] = useState<number>(DEFAULT_SETTINGS.quality);
+  const [targetDpi, setTargetDpi] = useState<number>(DEFAULT_SETTINGS.targetDpi);
+  const [dpiOverride, setDpiOverride] = useState<number>(DEFAULT_SETTINGS.dpiOverride);
+  const [overlays, setOverlays] = useState<PageOverlays>(DEFAULT_SETTINGS.overlays);
+  const [metadata, setMetadata] = useState<DocumentMetadata>(DEFAULT_SETTINGS.metadata);
+  const [bookmarks, setBookmarks] = useState<boolean>(DEFAULT_SETTINGS.bookmarks);
+  const [coverPage, setCoverPage] = useState<boolean>(DEFAULT_SETTINGS.coverPage);
+  const [security, setSecurity] = useState<PdfSecurity>(DEFAULT_SETTINGS.security);
+  const [ocrEnabled, setOcrEnabled] = useState<boolean>(DEFAULT_SETTINGS.ocrEnabled);
+  const [ocrLanguages, setOcrLanguages] = useState<OcrLanguage[]>(DEFAULT_SETTINGS.ocrLanguages);
+  const [mode, setMode] = useState<ConvertMode>(DEFAULT_SETTINGS.mode);
+  const [imageExport, setImageExport] = useState<ImageExportOptions>(DEFAULT_SETTINGS.imageExport);
+  const [pageRange, setPageRange] = useState<string>(DEFAULT_SETTINGS.pageRange);
+  const [packaging, setPackaging] = useState<ExportPackaging>(DEFAULT_SETTINGS.packaging);
+  const [split, setSplit] = useState<SplitOptions | undefined>(DEFAULT_SETTINGS.split);
+  const [folderSections, setFolderSections] = useState<boolean>(DEFAULT_SETTINGS.folderSections);
+  const [scanMode, setScanMode] = useState<boolean>(DEFAULT_SETTINGS.scanMode);
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
+  const [scanMissed, setScanMissed] = useState<string[]>([]);
+  const [filters, setFilters] = useState<ImageFilters>(DEFAULT_SETTINGS.filters);
+  // Card showing its original image while the compare button is held
+  const [comparing, setComparing] = useState<string | null>(null);
+  const [estimatedSize, setEstimatedSize] = useState<number | null>(null);
+  const [fileName, setFileName] = useState<string>(DEFAULT_SETTINGS.fileName);
   const [selectedPreview, setSelectedPreview] = useState<number | null>(null);
   const [totalSize, setTotalSize] = useState<number>(0);
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [showSettings, setShowSettings] = useState<boolean>(true);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [progress, setProgress] = useState<number>(0);
+  const [skipFailed, setSkipFailed] = useState<boolean>(DEFAULT_SETTINGS.skipFailed);
+  const [itemStatus, setItemStatus] = useState<Record<string, ItemState>>({});
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  // Images picked with ctrl- or shift-click, and where a shift-click range starts
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [showBulkLayout, setShowBulkLayout] = useState<boolean>(false);
+  // Grid position the dragged images would be dropped at
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+  // Nothing is saved until the last session has been restored, or it would be overwritten
+  const [sessionLoaded, setSessionLoaded] = useState<boolean>(false);
+  const [restoredCount, setRestoredCount] = useState<number>(0);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // What undo and redo would revert, shown on their buttons
+  const [historyLabels, setHistoryLabels] = useState<{ undo?: string; redo?: string }>({});
+  const draggedIds = useRef<string[]>([]);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  // Card to focus once a keyboard move has been rendered
+  const focusAfterMove = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest thumbnail render per preview, so slow renders can't overwrite newer ones
+  const thumbnailRequests = useRef<Record<string, number>>({});
+  // Bumped when document mode is turned off, so running page searches stop
+  const scanRun = useRef<number>(0);
+  const askedToPersist = useRef<boolean>(false);
+  // Undo and redo stacks, newest last, and the state the next change is compared with
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const committed = useRef<Snapshot | null>(null);
+  const historyGroup = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set while undo, redo or starting fresh change state, so that change isn't recorded
+  const skipHistory = useRef<boolean>(false);
+  // Previews as last rendered, for redrawing every thumbnail when only the filters change
+  const latestPreviews = useRef<Preview[]>([]);
 
   // Calculate total size when files change
   useEffect(() => {
@@ -38,32 +397,401 @@ export default function ImageToPdf() {
     setTotalSize(size);
   }, [files]);
 
-  const handleFiles = (files: File[]) => {
+  useEffect(() => {
+    latestPreviews.current = previews;
+  }, [previews]);
+
+  // Moving a card in the DOM drops its focus, so restore it for keyboard users
+  useEffect(() => {
+    if (!focusAfterMove.current) return;
+    cardRefs.current[focusAfterMove.current]?.focus();
+    focusAfterMove.current = null;
+  }, [previews]);
+
+  // React has no prop for directory pickers, so set the attribute directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  // Everything in the settings panels as one value, for saving and restoring the session
+  const settings = useMemo<SessionSettings>(
+    () => ({
+      mode, pageSize, orientation, imageSize, margin, sideMargins,
+      customSize, unit, gridPreset, grid, quality,
+      targetDpi, dpiOverride, overlays, metadata, bookmarks, coverPage,
+      security, ocrEnabled, ocrLanguages, imageExport, pageRange, packaging,
+      split, folderSections, scanMode, filters, fileName, skipFailed,
+    }),
+    [
+      mode, pageSize, orientation, imageSize, margin, sideMargins, customSize, unit, gridPreset, grid,
+      quality, targetDpi, dpiOverride, overlays, metadata, bookmarks, coverPage, security, ocrEnabled,
+      ocrLanguages, imageExport, pageRange, packaging, split, folderSections, scanMode, filters, fileName, skipFailed
+    ]
+  );
+
+  const applySettings = useCallback((next: SessionSettings) => {
+    setMode(next.mode);
+    setPageSize(next.pageSize);
+    setOrientation(next.orientation);
+    setImageSize(next.imageSize);
+    setMargin(next.margin);
+    setSideMargins(next.sideMargins);
+    setCustomSize(next.customSize);
+    setUnit(next.unit);
+    setGridPreset(next.gridPreset);
+    setGrid(next.grid);
+    setQuality(next.quality);
+    setTargetDpi(next.targetDpi);
+    setDpiOverride(next.dpiOverride);
+    setOverlays(next.overlays);
+    setMetadata(next.metadata);
+    setBookmarks(next.bookmarks);
+    setCoverPage(next.coverPage);
+    setSecurity(next.security);
+    setOcrEnabled(next.ocrEnabled);
+    setOcrLanguages(next.ocrLanguages);
+    setImageExport(next.imageExport);
+    setPageRange(next.pageRange);
+    setPackaging(next.packaging);
+    setSplit(next.split);
+    setFolderSections(next.folderSections);
+    setScanMode(next.scanMode);
+    setFilters(next.filters);
+    setFileName(next.fileName);
+    setSkipFailed(next.skipFailed);
+  }, []);
+
+  // Previews and files always share one order
+  const setOrder = useCallback((ordered: Preview[]) => {
+    setPreviews(ordered);
+    setFiles(ordered.map((p) => p.file));
+  }, []);
+
+  // Thumbnails show the global filters too, so they match the PDF
+  const refreshThumbnail = useCallback(async (
+    { id, file }: Preview,
+    edits: ImageEdits | undefined,
+    globalFilters: ImageFilters
+  ) => {
+    const shown = withFilters(edits, globalFilters);
+    const request = (thumbnailRequests.current[id] ?? 0) + 1;
+    thumbnailRequests.current[id] = request;
+    let editedUrl: string | undefined;
+    try {
+      editedUrl = shown && hasEdits(shown)
+        ? URL.createObjectURL(await renderEditedPreview(file, shown, THUMBNAIL_SIZE))
+        : undefined;
+    } catch (error) {
+      console.error("Error rendering thumbnail:", error);
+    }
+
+    if (thumbnailRequests.current[id] !== request) {
+      if (editedUrl) URL.revokeObjectURL(editedUrl);
+      return;
+    }
+    setPreviews((prev) => prev.map((p) => {
+      if (p.id !== id) return p;
+      if (p.editedUrl) URL.revokeObjectURL(p.editedUrl);
+      return { ...p, editedUrl };
+    }));
+  }, []);
+
+  const restoreSession = useCallback(async (session: StoredSession<SessionManifest>) => {
+    const restored = restorePreviews(session);
+    const restoredSettings = completeSettings(session.manifest.settings);
+    // A restored session or opened project is the starting point, not a step to undo
+    skipHistory.current = true;
+    setOrder(restored);
+    applySettings(restoredSettings);
+    // Object URLs don't survive a reload, so edited thumbnails are drawn again
+    for (const p of restored) {
+      if (hasEdits(p.edits)) await refreshThumbnail(p, p.edits, restoredSettings.filters);
+    }
+  }, [applySettings, refreshThumbnail, setOrder]);
+
+  // Pick up where the last visit left off
+  useEffect(() => {
+    if (!isSessionStorageSupported()) {
+      setSessionLoaded(true);
+      return;
+    }
+    loadSession<SessionManifest>()
+      .then((session) => {
+        if (!session) return;
+        setRestoredCount(session.manifest.previews.length);
+        restoreSession(session);
+      })
+      .catch((error) => console.error("Error restoring session:", error))
+      .finally(() => setSessionLoaded(true));
+  }, [restoreSession]);
+
+  // Save the session once changes settle, writing only blobs that aren't stored yet
+  useEffect(() => {
+    if (!sessionLoaded || !isSessionStorageSupported()) return;
+    const timer = setTimeout(async () => {
+      try {
+        const { manifest, blobs } = toSessionManifest(previews, settings);
+        await saveSession(manifest, blobs);
+        // Ask once there is something worth keeping
+        if (previews.length && !askedToPersist.current) {
+          askedToPersist.current = true;
+          await persistStorage();
+        }
+        setStorageUsage(await getStorageUsage());
+      } catch (error) {
+        // Usually the storage quota; the session then simply isn't saved
+        console.error("Error saving session:", error);
+      }
+    }, SESSION_SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [sessionLoaded, previews, settings]);
+
+  const syncHistoryLabels = () => {
+    setHistoryLabels({
+      undo: undoStack.current[undoStack.current.length - 1]?.label,
+      redo: redoStack.current[redoStack.current.length - 1]?.label,
+    });
+  };
+
+  // Record every change to the images or settings, once the saved session has been restored
+  useEffect(() => {
+    const current = { previews, settings };
+    const last = committed.current;
+    committed.current = current;
+    if (skipHistory.current) {
+      skipHistory.current = false;
+      return;
+    }
+    if (!last || !sessionLoaded) return;
+    const label = describeChange(last, current);
+    if (!label) return;
+
+    // Only the first change of a burst starts a new entry
+    if (historyGroup.current) {
+      clearTimeout(historyGroup.current);
+    } else {
+      const dropped = [...redoStack.current];
+      undoStack.current.push({ ...last, label });
+      if (undoStack.current.length > HISTORY_LIMIT) dropped.push(...undoStack.current.splice(0, 1));
+      redoStack.current = [];
+      releasePreviews(dropped, [...undoStack.current, current]);
+      syncHistoryLabels();
+    }
+    historyGroup.current = setTimeout(() => {
+      historyGroup.current = null;
+    }, HISTORY_GROUP_DELAY);
+  }, [previews, settings, sessionLoaded]);
+
+  // Bring back a snapshot, keeping thumbnails that still match and redrawing the rest
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    if (historyGroup.current) clearTimeout(historyGroup.current);
+    historyGroup.current = null;
+    skipHistory.current = true;
+
+    const restored = snapshot.previews.map((p) => {
+      const now = previews.find((c) => c.id === p.id);
+      const editedUrl = now && now.edits === p.edits ? now.editedUrl : undefined;
+      return { ...p, info: p.info ?? now?.info, editedUrl };
+    });
+    setOrder(restored);
+    applySettings(snapshot.settings);
+    clearSelection();
+    setItemStatus({});
+    restored
+      .filter((p) => !p.editedUrl && hasEdits(withFilters(p.edits, snapshot.settings.filters)))
+      .forEach((p) => refreshThumbnail(p, p.edits, snapshot.settings.filters));
+  };
+
+  const undo = () => {
+    const entry = undoStack.current.pop();
+    if (!entry) return;
+    redoStack.current.push({ previews, settings, label: entry.label });
+    restoreSnapshot(entry);
+    syncHistoryLabels();
+  };
+
+  const redo = () => {
+    const entry = redoStack.current.pop();
+    if (!entry) return;
+    undoStack.current.push({ previews, settings, label: entry.label });
+    restoreSnapshot(entry);
+    syncHistoryLabels();
+  };
+
+  // Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y), leaving text fields their own undo and the
+  // editor open on top its image
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || selectedPreview !== null) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Drop every undo and redo step along with the images on screen, which are about to be replaced
+  const forgetHistory = () => {
+    if (historyGroup.current) clearTimeout(historyGroup.current);
+    historyGroup.current = null;
+    releasePreviews([...undoStack.current, ...redoStack.current, { previews, settings }], []);
+    undoStack.current = [];
+    redoStack.current = [];
+    syncHistoryLabels();
+  };
+
+  // Forget the saved session and go back to an empty converter with default settings.
+  // Unlike Clear All this can't be undone, so the history goes too and the user is asked first.
+  const startFresh = () => {
+    if (!confirm("Start fresh? This removes all images, resets the settings and clears the undo history. It can't be undone.")) return;
+    forgetHistory();
+    skipHistory.current = true;
+    clear();
+    applySettings(DEFAULT_SETTINGS);
+    setRestoredCount(0);
+    clearSession()
+      .then(getStorageUsage)
+      .then(setStorageUsage)
+      .catch((error) => console.error("Error clearing session:", error));
+  };
+
+  // Presets leave the settings of the current document alone, and don't store passwords
+  const applyPreset = (preset: PresetValues) => {
+    applySettings(completeSettings({
+      ...preset,
+      mode,
+      fileName,
+      metadata,
+      pageRange,
+      security: { ...preset.security, userPassword: security.userPassword, ownerPassword: security.ownerPassword },
+    }));
+  };
+
+  // Everything needed to reopen this arrangement elsewhere, zipped into one file
+  const exportProject = async () => {
+    try {
+      const { manifest, blobs } = toSessionManifest(previews, settings);
+      downloadBlob(await createProjectFile(manifest, blobs), `${fileName}-project.zip`);
+    } catch (error) {
+      console.error("Error exporting project:", error);
+      alert("The project could not be exported. Please try again.");
+    }
+  };
+
+  // Opening a project replaces the images and settings on screen, and starts a new history
+  // so undo can't bring back the previous project
+  const handleProjectInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
     setIsLoading(true);
-    
-    // Simulate loading for better UX
-    setTimeout(() => {
-      const chosen = files.filter(file => 
-        file.type === "image/jpeg" || 
-        file.type === "image/png" ||
-        file.type === "image/webp" ||
-        file.type === "image/gif"
-      );
+    try {
+      const session = await readProjectFile<SessionManifest>(file);
+      forgetHistory();
+      clear();
+      setRestoredCount(0);
+      await restoreSession(session);
+    } catch (error) {
+      console.error("Error opening project:", error);
+      alert(`The project could not be opened: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFiles = async (files: (File | FolderFile)[]) => {
+    setIsLoading(true);
+
+    try {
+      // Decode HEIC, TIFF and PDF up front so previews and conversion see plain images
+      const { images, rejected } = await importFiles(files);
+      const chosen = images.map((image) => image.file);
       
       // Add new files to existing ones
       setFiles(prev => [...prev, ...chosen]);
 
       // Create previews for new files
-      const newPreviews: Preview[] = chosen.map((f) => ({
+      const newPreviews: Preview[] = images.map(({ file: f, frames, dpi, pdfPage, folder }) => ({
         name: f.name,
         url: URL.createObjectURL(f),
         file: f,
         id: Math.random().toString(36).substr(2, 9),
+        frames: frames?.map((blob) => ({ blob, url: URL.createObjectURL(blob) })),
+        frameMode: frames ? "first" : undefined,
+        sourceDpi: dpi,
+        pdfPage,
+        folder,
       }));
       
       setPreviews(prev => [...prev, ...newPreviews]);
+      setRejectedFiles(rejected);
+      inspectImages(newPreviews);
+      if (scanMode) scanDocuments(newPreviews);
+    } catch (error) {
+      console.error("Error adding images:", error);
+      alert(`The images could not be added: ${error instanceof Error ? error.message : error}`);
+    } finally {
       setIsLoading(false);
-    }, 500);
+    }
+  };
+
+  // One image at a time, so a large batch doesn't hold every decoded bitmap at once
+  const inspectImages = async (added: Preview[]) => {
+    for (const preview of added) {
+      try {
+        updatePreview(preview.id, { info: await readImageInfo(preview.file) });
+      } catch {
+        // Unreadable images are reported when they are converted
+      }
+    }
+  };
+
+  // Find the page in each photo, one at a time like inspectImages, skipping pages that came from PDFs
+  const scanDocuments = async (targets: Preview[]) => {
+    const run = scanRun.current;
+    const photos = targets.filter((p) => !p.pdfPage && !p.edits?.perspective);
+    const missed: string[] = [];
+    for (const [done, preview] of photos.entries()) {
+      setScanProgress({ done, total: photos.length });
+      try {
+        const perspective = await detectDocument(preview.file, preview.edits);
+        if (scanRun.current !== run) return;
+        if (perspective) {
+          // A crop drawn on the photo doesn't fit the flattened page
+          editPreview(preview, { ...(preview.edits ?? NO_EDITS), perspective, crop: undefined });
+        } else {
+          missed.push(preview.name);
+        }
+      } catch (error) {
+        console.error("Error detecting page:", error);
+        missed.push(preview.name);
+      }
+    }
+    setScanProgress(null);
+    setScanMissed((prev) => [...prev, ...missed]);
+  };
+
+  const changeScanMode = (enabled: boolean) => {
+    setScanMode(enabled);
+    setScanMissed([]);
+    if (enabled) {
+      scanDocuments(previews);
+      return;
+    }
+    scanRun.current++;
+    setScanProgress(null);
+    previews
+      .filter((p) => p.edits?.perspective)
+      .forEach((p) => editPreview(p, { ...p.edits!, perspective: undefined, crop: undefined }));
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -71,6 +799,12 @@ export default function ImageToPdf() {
     handleFiles(chosen);
   };
 
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(readPickedFolder(Array.from(e.target.files || [])));
+    // Picking the same folder again should import it again
+    e.target.value = "";
+  };
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragOver(true);
@@ -84,28 +818,31 @@ export default function ImageToPdf() {
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragOver(false);
-    const droppedFiles = Array.from(e.dataTransfer.files);
-    handleFiles(droppedFiles);
+    // Dropped folders are walked recursively
+    readDroppedFiles(e.dataTransfer)
+      .then(handleFiles)
+      .catch((error) => {
+        console.error("Error reading dropped files:", error);
+        alert("The dropped files could not be read. Please try again.");
+      });
   };
 
+  // Undoable, so the images' object URLs stay alive in the history
   const clear = () => {
-    previews.forEach((p) => URL.revokeObjectURL(p.url));
     setFiles([]);
     setPreviews([]);
+    setItemStatus({});
+    setRejectedFiles([]);
+    // Page searches still running belong to the cleared images
+    scanRun.current++;
+    setScanProgress(null);
+    setScanMissed([]);
+    clearConversionCache();
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  // Utility: load file as data URL
-  const fileToDataURL = (file: File): Promise<string | ArrayBuffer | null> =>
-    new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (ev) => resolve(ev.target?.result ?? null);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-
   // Format file size
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return "0 Bytes";
@@ -129,6 +866,12 @@ export default function ImageToPdf() {
     setFiles(newFiles);
   };
 
+  // Move several images at once so they sit together before the image now at target
+  const moveImages = (ids: string[], target: number) => {
+    const indexes = previews.flatMap((p, i) => (ids.includes(p.id) ? [i] : []));
+    setOrder(moveItems(previews, indexes, target));
+  };
+
   // Sort images by name
   const sortImages = () => {
     const newOrder = sortOrder === "asc" ? "desc" : "asc";
@@ -146,121 +889,264 @@ export default function ImageToPdf() {
     setFiles(sortedFiles);
   };
 
-  const generatePDF = async () => {
-    if (!files.length) {
-      alert("Please select one or more image files.");
-      return;
-    }
+  const updatePreview = (id: string, changes: Partial<Preview>) => {
+    setPreviews((prev) => prev.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+  };
 
-    setIsConverting(true);
-    setProgress(0);
-    
-    try {
-      // Get page dimensions based on settings
-      const pageDimensions: Record<PageSize, { width: number; height: number }> = {
-        a4: { width: 210, height: 297 },
-        letter: { width: 215.9, height: 279.4 },
-        legal: { width: 215.9, height: 355.6 },
-        a3: { width: 297, height: 420 }
-      };
-
-      const dimensions = pageDimensions[pageSize];
-      const isLandscape = orientation === "landscape";
-      const pageWidth = isLandscape ? dimensions.height : dimensions.width;
-      const pageHeight = isLandscape ? dimensions.width : dimensions.height;
-
-      const pdf = new jsPDF({ 
-        unit: "mm", 
-        format: [pageWidth, pageHeight],
-        orientation: isLandscape ? "landscape" : "portrait"
-      });
+  // Store edits and refresh the grid thumbnail to match them
+  const editImage = (id: string, edits: ImageEdits) => {
+    const preview = previews.find((p) => p.id === id);
+    if (preview) editPreview(preview, edits);
+  };
 
-      const maxW = pageWidth - (margin * 2);
-      const maxH = pageHeight - (margin * 2);
+  // Like editImage, for previews that may have been added since the last render
+  const editPreview = async (preview: Preview, edits: ImageEdits) => {
+    updatePreview(preview.id, { edits });
+    await refreshThumbnail(preview, edits, filters);
+  };
 
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const dataUrl = (await fileToDataURL(file)) as string;
+  // Previews expanded into PDF pages; owners maps each page back to its preview id
+  const pages = useMemo(() => {
+    const inputs: ConversionInput[] = [];
+    const keys: string[] = [];
+    const owners: string[] = [];
 
-        // Update progress
-        setProgress(Math.round(((i + 1) / files.length) * 100));
+    previews.forEach((p) => {
+      // Edited pages must not reuse pages prepared before the edit
+      const editKey = hasEdits(p.edits) || p.layout
+        ? `~${JSON.stringify({ edits: p.edits, layout: p.layout })}`
+        : "";
+      const blobs = p.frames
+        ? selectedFrames(p).map((frameIndex) => ({ blob: p.frames![frameIndex].blob, key: `${p.id}#${frameIndex}` }))
+        : [{ blob: p.file as Blob, key: p.id }];
 
-        // Create an Image to get its natural size
-        const img = new Image();
-        await new Promise<void>((res, rej) => {
-          img.onload = () => res();
-          img.onerror = rej;
-          img.src = dataUrl;
+      blobs.forEach(({ blob, key }, frame) => {
+        inputs.push({
+          blob,
+          edits: p.edits,
+          layout: p.layout,
+          name: p.name,
+          caption: p.caption,
+          // The override has to win over resolutions found during import, but PDF pages keep their printed size
+          dpi: dpiOverride && !p.pdfPage ? undefined : p.sourceDpi,
+          // Frames of one image stay together
+          splitBefore: frame === 0 && p.splitBefore,
+          folder: p.folder,
+          pdfPage: p.pdfPage,
         });
+        keys.push(key + editKey);
+        owners.push(p.id);
+      });
+    });
+
+    return { inputs, keys, owners };
+  }, [previews, dpiOverride]);
 
-        const imgWidthPx = img.naturalWidth;
-        const imgHeightPx = img.naturalHeight;
+  const pageLayout = useMemo<PageLayout>(
+    () => ({ pageSize, orientation, imageSize, margin: sideMargins ?? margin, customSize }),
+    [pageSize, orientation, imageSize, margin, sideMargins, customSize]
+  );
 
-        // Convert pixels to mm (assume 96 DPI)
-        const pxToMm = 25.4 / 96;
-        let imgWmm = imgWidthPx * pxToMm;
-        let imgHmm = imgHeightPx * pxToMm;
+  const conversionOptions = useMemo<ConversionOptions>(() => ({
+    ...pageLayout,
+    quality,
+    targetDpi,
+    grid: gridPreset === "single" ? undefined : grid,
+    dpiOverride,
+    overlays,
+    metadata: { ...metadata, title: metadata.title?.trim() || fileName },
+    bookmarks,
+    folderSections,
+    coverPage,
+    security,
+    ocr: ocrEnabled ? { languages: ocrLanguages } : undefined,
+    split,
+    filters,
+  }), [
+    pageLayout, quality, targetDpi, gridPreset, grid, dpiOverride, overlays, metadata, fileName, bookmarks,
+    folderSections, coverPage, security, ocrEnabled, ocrLanguages, split, filters
+  ]);
 
-        let finalW = imgWmm;
-        let finalH = imgHmm;
-        let x = margin;
-        let y = margin;
+  // Only what changes how the images are embedded, so typing a title or password doesn't redo the estimate
+  const estimateOptions = useMemo<ConversionOptions>(() => ({
+    ...pageLayout,
+    quality,
+    targetDpi,
+    grid: gridPreset === "single" ? undefined : grid,
+    dpiOverride,
+    filters,
+  }), [pageLayout, quality, targetDpi, gridPreset, grid, dpiOverride, filters]);
 
-        switch (imageSize) {
-          case "fit":
-            const widthRatio = maxW / imgWmm;
-            const heightRatio = maxH / imgHmm;
-            const ratio = Math.min(widthRatio, heightRatio, 1);
-            
-            finalW = imgWmm * ratio;
-            finalH = imgHmm * ratio;
-            x = (pageWidth - finalW) / 2;
-            y = (pageHeight - finalH) / 2;
-            break;
-
-          case "fill":
-            const fillRatio = Math.max(maxW / imgWmm, maxH / imgHmm);
-            finalW = imgWmm * fillRatio;
-            finalH = imgHmm * fillRatio;
-            x = (pageWidth - finalW) / 2;
-            y = (pageHeight - finalH) / 2;
-            break;
-
-          case "original":
-            // Keep original size, but ensure it fits on page
-            if (finalW > maxW || finalH > maxH) {
-              const ratio = Math.min(maxW / finalW, maxH / finalH, 1);
-              finalW *= ratio;
-              finalH *= ratio;
-            }
-            x = (pageWidth - finalW) / 2;
-            y = (pageHeight - finalH) / 2;
-            break;
-        }
+  // Resolution an image ends up printed at, null until its size is known
+  const effectivePrintDpi = (p: Preview): number | null => {
+    // Vector images and PDF pages are copied or rasterized at whatever resolution the page needs
+    if (!p.info || p.pdfPage || detectFormat(p.file) === "svg") return null;
+    const { width, height } = editedSize(p.info.width, p.info.height, p.edits);
+    const dpi = dpiOverride || p.sourceDpi || p.info.dpi || DEFAULT_DPI;
+    const { placement } = placeImage(conversionOptions, p.layout, width, height, dpi);
+    return printDpi(width, placement.width);
+  };
 
-        if (i > 0) pdf.addPage();
+  const selectGridPreset = (value: GridPreset) => {
+    setGridPreset(value);
+    const preset = gridPresetOptions.find((option) => option.value === value);
+    if (preset?.grid) setGrid((prev) => ({ ...prev, ...preset.grid }));
+  };
 
-        const type = file.type.includes("png") ? "PNG" : 
-                    file.type.includes("webp") ? "WEBP" : "JPEG";
-        
-        // Fixed: Use correct parameters for addImage
-        pdf.addImage(dataUrl, type, x, y, finalW, finalH);
+  // Estimate the PDF size by compressing a few sample images in the worker
+  useEffect(() => {
+    if (!pages.inputs.length) {
+      setEstimatedSize(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      estimateInWorker(pages.inputs, estimateOptions, { signal: controller.signal })
+        .then((size) => setEstimatedSize(size))
+        .catch((error) => {
+          if (error instanceof ConversionCancelledError) return;
+          console.error("Error estimating PDF size:", error);
+          setEstimatedSize(null);
+        });
+    }, 400);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [pages, estimateOptions]);
+
+  // Redraw the thumbnails one at a time once the global filters settle
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      for (const p of latestPreviews.current) {
+        if (cancelled) return;
+        await refreshThumbnail(p, p.edits, filters);
       }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filters, refreshThumbnail]);
+
+  // Pages prepared with other settings can't be resumed, so forget their progress
+  useEffect(() => {
+    setItemStatus((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([, item]) => item.status === "failed"))
+    );
+  }, [quality, targetDpi, pageSize, orientation, imageSize, margin, sideMargins, customSize, gridPreset, grid, dpiOverride, ocrEnabled, ocrLanguages, filters]);
+
+  const exportRange = readPageRange(pageRange, previews.length);
+
+  // A cancelled or failed run left finished pages behind that can be reused
+  const canResume = !isConverting &&
+    Object.values(itemStatus).some((item) => item.status === "done");
+
+  const generatePDF = async () => {
+    if (!files.length) {
+      alert("Please select one or more image files.");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { inputs, keys, owners } = pages;
+    const failed = new Set<string>();
+
+    setIsConverting(true);
+    setProgress(0);
+    setItemStatus(Object.fromEntries(previews.map((p) => [p.id, { status: "pending" }])));
+    
+    try {
+      const pdfs = await convertInWorker(inputs, { ...conversionOptions, skipFailed }, {
+        signal: controller.signal,
+        cacheKeys: keys,
+        onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100)),
+        onItemStatus: (index, status, error) => {
+          const id = owners[index];
+          if (status === "failed") failed.add(id);
+          setItemStatus((prev) => ({
+            ...prev,
+            // A failed frame marks the whole image as failed
+            [id]: failed.has(id) && status !== "failed" ? prev[id] : { status, error },
+          }));
+        },
+      });
 
       // Add a small delay to show the animation
       setTimeout(() => {
-        pdf.save(`${fileName}.pdf`);
+        // Several parts come as one ZIP of numbered PDFs
+        downloadPdfs(pdfs, fileName).catch((error) => {
+          console.error("Error packaging PDFs:", error);
+          alert("The PDFs were created but could not be packed into a ZIP. Please try again.");
+        });
         setIsConverting(false);
         setProgress(0);
+        // Keep failed badges visible so the broken files can be found and removed
+        setItemStatus((prev) =>
+          Object.fromEntries(Object.entries(prev).filter(([, item]) => item.status === "failed"))
+        );
+        if (failed.size) {
+          const names = previews.filter((p) => failed.has(p.id)).map((p) => p.name);
+          alert(`${names.length} image(s) could not be converted and were skipped:\n${names.join("\n")}`);
+        }
       }, 800);
     } catch (error) {
-      console.error("Error generating PDF:", error);
       setIsConverting(false);
       setProgress(0);
+      if (error instanceof ConversionCancelledError) return;
+      console.error("Error generating PDF:", error);
       alert("An error occurred while generating the PDF. Please try again.");
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  // Render the selected pages, PDF pages at the chosen DPI, and download them
+  const exportAsImages = async () => {
+    const { pages, error } = exportRange;
+    if (error) {
+      alert(`Please check the page range: ${error}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsConverting(true);
+    setProgress(0);
+
+    try {
+      const images = await exportImages(
+        pages.map((page) => {
+          const p = previews[page - 1];
+          return { blob: p.file, name: p.name, pdfPage: p.pdfPage, edits: p.edits };
+        }),
+        imageExport,
+        {
+          signal: controller.signal,
+          onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100)),
+        }
+      );
+      await downloadImages(images, packaging, `${fileName}.zip`);
+    } catch (error) {
+      if (error instanceof ConversionCancelledError) return;
+      console.error("Error exporting images:", error);
+      alert("An error occurred while exporting the images. Please try again.");
+    } finally {
+      setIsConverting(false);
+      setProgress(0);
+      abortControllerRef.current = null;
     }
   };
 
+  const cancelConversion = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Preview image in modal
   const openPreview = (index: number) => {
     setSelectedPreview(index);
@@ -282,9 +1168,144 @@ export default function ImageToPdf() {
     }
   };
 
+  // Selected ids in grid order
+  const selectedIds = previews.filter((p) => selection.has(p.id)).map((p) => p.id);
+
+  const clearSelection = () => {
+    setSelection(new Set());
+    setSelectionAnchor(null);
+    setShowBulkLayout(false);
+  };
+
+  const removeImages = (ids: string[]) => {
+    const removing = new Set(ids);
+    setOrder(previews.filter((p) => !removing.has(p.id)));
+    clearSelection();
+  };
+
+  const rotateImages = (ids: string[], direction: 1 | -1) => {
+    previews
+      .filter((p) => ids.includes(p.id))
+      .forEach((p) => editImage(p.id, rotateEdits(p.edits ?? NO_EDITS, direction)));
+  };
+
+  const applyLayout = (ids: string[], layout: LayoutOverrides) => {
+    setPreviews((prev) => prev.map((p) => (
+      ids.includes(p.id) ? { ...p, layout: Object.keys(layout).length ? layout : undefined } : p
+    )));
+  };
+
+  // Plain clicks open the preview; shift selects a range and ctrl or cmd toggles one image
+  const handleCardClick = (e: React.MouseEvent, idx: number) => {
+    const id = previews[idx].id;
+    if (e.shiftKey) {
+      setSelection(new Set(rangeBetween(previews.map((p) => p.id), selectionAnchor, id)));
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      setSelection((prev) => toggleId(prev, id));
+      setSelectionAnchor(id);
+      return;
+    }
+    openPreview(idx);
+  };
+
+  // Keyboard equivalents: arrows move focus, ctrl or alt with arrows, Home or End moves the images,
+  // space selects, Enter opens and Delete removes
+  const handleCardKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, idx: number) => {
+    if (e.target !== e.currentTarget) return;
+    const id = previews[idx].id;
+    const moving = selection.has(id) ? selectedIds : [id];
+    const indexes = previews.flatMap((p, i) => (moving.includes(p.id) ? [i] : []));
+    const withModifier = e.ctrlKey || e.metaKey || e.altKey;
+    const focusCard = (index: number) => {
+      const target = previews[Math.max(0, Math.min(previews.length - 1, index))];
+      cardRefs.current[target.id]?.focus();
+    };
+    const moveTo = (target: number) => {
+      focusAfterMove.current = id;
+      moveImages(moving, target);
+    };
+
+    switch (e.key) {
+      case "ArrowLeft":
+        if (withModifier) moveTo(Math.max(0, indexes[0] - 1));
+        else focusCard(idx - 1);
+        break;
+      case "ArrowRight":
+        if (withModifier) moveTo(Math.min(previews.length, indexes[indexes.length - 1] + 2));
+        else focusCard(idx + 1);
+        break;
+      case "Home":
+        if (withModifier) moveTo(0);
+        else focusCard(0);
+        break;
+      case "End":
+        if (withModifier) moveTo(previews.length);
+        else focusCard(previews.length - 1);
+        break;
+      case " ":
+        if (e.shiftKey) {
+          setSelection(new Set(rangeBetween(previews.map((p) => p.id), selectionAnchor, id)));
+        } else {
+          setSelection((prev) => toggleId(prev, id));
+          setSelectionAnchor(id);
+        }
+        break;
+      case "Enter":
+        openPreview(idx);
+        break;
+      case "Delete":
+      case "Backspace": {
+        // Keep focus in the grid, on the image that moves into this place
+        const next = previews.slice(idx).find((p) => !moving.includes(p.id))
+          ?? [...previews].reverse().find((p) => !moving.includes(p.id));
+        focusAfterMove.current = next?.id ?? null;
+        removeImages(moving);
+        break;
+      }
+      case "Escape":
+        clearSelection();
+        break;
+      case "a":
+        if (!(e.ctrlKey || e.metaKey)) return;
+        setSelection(new Set(previews.map((p) => p.id)));
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Dragging a selected image takes the whole selection along
+  const handleCardDragStart = (e: React.DragEvent<HTMLDivElement>, idx: number) => {
+    const id = previews[idx].id;
+    draggedIds.current = selection.has(id) ? selectedIds : [id];
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData(GRID_DRAG_TYPE, draggedIds.current.join(","));
+  };
+
+  const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, idx: number) => {
+    if (!e.dataTransfer.types.includes(GRID_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropTarget(dropIndex(idx, e.clientX, e.currentTarget.getBoundingClientRect()));
+  };
+
+  const handleCardDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes(GRID_DRAG_TYPE)) return;
+    e.preventDefault();
+    if (dropTarget !== null) moveImages(draggedIds.current, dropTarget);
+    handleCardDragEnd();
+  };
+
+  const handleCardDragEnd = () => {
+    draggedIds.current = [];
+    setDropTarget(null);
+  };
+
   // Remove single image
   const removeImage = (index: number) => {
-    URL.revokeObjectURL(previews[index].url);
     const newPreviews = previews.filter((_, i) => i !== index);
     const newFiles = files.filter((_, i) => i !== index);
     setPreviews(newPreviews);
@@ -309,11 +1330,31 @@ export default function ImageToPdf() {
             </svg>
           </div>
           <h1 className="text-4xl md:text-5xl font-bold text-white mb-3 bg-clip-text text-transparent bg-gradient-to-r from-purple-300 to-pink-300">
-            Image to PDF Converter
+            {mode === "toPdf" ? "Image to PDF Converter" : "PDF to Image Converter"}
           </h1>
           <p className="text-lg text-purple-200 opacity-90 max-w-2xl mx-auto">
-            Transform your images into a beautifully formatted PDF document with professional quality
+            {mode === "toPdf"
+              ? "Transform your images into a beautifully formatted PDF document with professional quality"
+              : "Turn the pages of your PDFs into PNG or JPEG images at the resolution you need"}
           </p>
+
+          {/* Conversion Direction */}
+          <div className="inline-flex mt-6 p-1 bg-white/10 rounded-xl border border-white/20">
+            {([["toPdf", "Images → PDF"], ["toImages", "PDF → Images"]] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                disabled={isConverting}
+                className={`px-5 py-2 rounded-lg text-sm font-semibold transition-all duration-300 ${
+                  mode === value
+                    ? "bg-gradient-to-r from-purple-600 to-pink-600 text-white shadow-lg"
+                    : "text-purple-200 hover:text-white"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Main Card with Glass Effect */}
@@ -346,6 +1387,20 @@ export default function ImageToPdf() {
                       <p className="text-2xl font-bold text-white">{formatFileSize(totalSize)}</p>
                     </div>
                   </div>
+
+                  <div className="flex items-center space-x-3">
+                    <div className="p-2 bg-green-500/20 rounded-lg">
+                      <svg className="w-5 h-5 text-green-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+                      </svg>
+                    </div>
+                    <div>
+                      <p className="text-sm text-green-200">Est. PDF Size</p>
+                      <p className="text-2xl font-bold text-white">
+                        {estimatedSize === null ? "—" : `~${formatFileSize(estimatedSize)}`}
+                      </p>
+                    </div>
+                  </div>
                   
                   <div className="flex items-center space-x-3">
                     <div className="p-2 bg-pink-500/20 rounded-lg">
@@ -355,7 +1410,11 @@ export default function ImageToPdf() {
                     </div>
                     <div>
                       <p className="text-sm text-pink-200">Page Size</p>
-                      <p className="text-2xl font-bold text-white">{pageSize.toUpperCase()}</p>
+                      <p className="text-2xl font-bold text-white">
+                        {pageSize === "custom"
+                          ? `${displayLength(customSize.width, unit)} × ${displayLength(customSize.height, unit)}${unit}`
+                          : pageSize === "image" ? "Image" : pageSize.toUpperCase()}
+                      </p>
                     </div>
                   </div>
                 </div>
@@ -371,10 +1430,106 @@ export default function ImageToPdf() {
                   <span>{showSettings ? "Hide Settings" : "Show Settings"}</span>
                 </button>
               </div>
+
+              {/* Session & Project */}
+              <div className="mt-4 pt-4 border-t border-white/10 flex flex-wrap items-center justify-between gap-3 text-sm">
+                <span className="text-gray-300">
+                  {isSessionStorageSupported() && (
+                    <>
+                      💾 {restoredCount > 0
+                        ? `Restored ${restoredCount} ${restoredCount === 1 ? "image" : "images"} from your last session.`
+                        : "Your images and settings are saved in this browser as you work."}
+                    </>
+                  )}
+                  {storageUsage && (
+                    <span className="text-gray-400" title={`${formatFileSize(storageUsage.quota)} available to this site`}>
+                      {" "}Using {formatFileSize(storageUsage.usage)} of {formatFileSize(storageUsage.quota)}.
+                    </span>
+                  )}
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={undo}
+                    disabled={!historyLabels.undo}
+                    className="px-3 py-1.5 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={historyLabels.undo ? `Undo ${historyLabels.undo} (Ctrl+Z)` : "Nothing to undo"}
+                  >
+                    ↶ Undo
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={!historyLabels.redo}
+                    className="px-3 py-1.5 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={historyLabels.redo ? `Redo ${historyLabels.redo} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  >
+                    ↷ Redo
+                  </button>
+                  <input
+                    ref={projectInputRef}
+                    type="file"
+                    accept=".zip,application/zip"
+                    onChange={handleProjectInput}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => projectInputRef.current?.click()}
+                    className="px-3 py-1.5 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors duration-300"
+                    title="Open a project file exported from this app"
+                  >
+                    Open project
+                  </button>
+                  <button
+                    onClick={exportProject}
+                    disabled={!previews.length}
+                    className="px-3 py-1.5 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Download the images, their order and edits and the settings as one ZIP file"
+                  >
+                    Export project
+                  </button>
+                  {isSessionStorageSupported() && (
+                    <button
+                      onClick={startFresh}
+                      className="px-3 py-1.5 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors duration-300"
+                    >
+                      Start fresh
+                    </button>
+                  )}
+                </div>
+              </div>
             </div>
 
+            {/* Image Export Settings */}
+            {showSettings && mode === "toImages" && (
+              <div className="bg-gradient-to-br from-gray-900/40 to-gray-800/40 rounded-2xl p-8 mb-8 border border-white/10 shadow-xl backdrop-blur-sm animate-fadeIn">
+                <h3 className="text-2xl font-bold text-white flex items-center space-x-3 mb-6">
+                  <svg className="w-7 h-7 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  <span>Image Export Settings</span>
+                </h3>
+                <div className="mb-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">⭐</span>
+                    <span>Presets</span>
+                  </h4>
+                  <PresetSettings settings={settings} onApply={applyPreset} />
+                </div>
+                <ImageExportSettings
+                  options={imageExport}
+                  pageRange={pageRange}
+                  pageRangeError={exportRange.error}
+                  selectedCount={exportRange.pages.length}
+                  pageCount={previews.length}
+                  packaging={packaging}
+                  onOptionsChange={setImageExport}
+                  onPageRangeChange={setPageRange}
+                  onPackagingChange={setPackaging}
+                />
+              </div>
+            )}
+
             {/* Settings Panel */}
-            {showSettings && (
+            {showSettings && mode === "toPdf" && (
               <div className="bg-gradient-to-br from-gray-900/40 to-gray-800/40 rounded-2xl p-8 mb-8 border border-white/10 shadow-xl backdrop-blur-sm animate-fadeIn">
                 <div className="flex items-center justify-between mb-6">
                   <h3 className="text-2xl font-bold text-white flex items-center space-x-3">
@@ -388,6 +1543,15 @@ export default function ImageToPdf() {
                     <span className="text-sm text-green-300">Active</span>
                   </div>
                 </div>
+
+                {/* Presets */}
+                <div className="mb-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">⭐</span>
+                    <span>Presets</span>
+                  </h4>
+                  <PresetSettings settings={settings} onApply={applyPreset} />
+                </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {/* Setting Cards */}
@@ -396,33 +1560,28 @@ export default function ImageToPdf() {
                       label: "Page Size",
                       value: pageSize,
                       onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setPageSize(e.target.value as PageSize),
-                      options: [
-                        { value: "a4", label: "A4 (210 × 297mm)" },
-                        { value: "letter", label: "Letter (216 × 279mm)" },
-                        { value: "legal", label: "Legal (216 × 356mm)" },
-                        { value: "a3", label: "A3 (297 × 420mm)" }
-                      ],
+                      options: pageSizeOptions,
                       icon: "📄"
                     },
                     {
                       label: "Orientation",
                       value: orientation,
-                      onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setOrientation(e.target.value as PageOrientation),
-                      options: [
-                        { value: "portrait", label: "Portrait" },
-                        { value: "landscape", label: "Landscape" }
-                      ],
+                      onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setOrientation(e.target.value as OrientationSetting),
+                      options: orientationOptions,
                       icon: "🔄"
                     },
+                    {
+                      label: "Images per Page",
+                      value: gridPreset,
+                      onChange: (e: React.ChangeEvent<HTMLSelectElement>) => selectGridPreset(e.target.value as GridPreset),
+                      options: gridPresetOptions,
+                      icon: "🔲"
+                    },
                     {
                       label: "Image Size",
                       value: imageSize,
                       onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setImageSize(e.target.value as ImageSize),
-                      options: [
-                        { value: "fit", label: "Fit to Page" },
-                        { value: "fill", label: "Fill Page" },
-                        { value: "original", label: "Original Size" }
-                      ],
+                      options: imageSizeOptions,
                       icon: "📏"
                     },
                     {
@@ -451,8 +1610,47 @@ export default function ImageToPdf() {
                       max: "1",
                       step: "0.1",
                       icon: "⭐"
+                    },
+                    {
+                      label: "If an Image Fails",
+                      value: skipFailed ? "skip" : "stop",
+                      onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setSkipFailed(e.target.value === "skip"),
+                      options: [
+                        { value: "skip", label: "Skip it and continue" },
+                        { value: "stop", label: "Stop the conversion" }
+                      ],
+                      icon: "⚠️"
+                    },
+                    {
+                      label: "Max Resolution",
+                      value: String(targetDpi),
+                      onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setTargetDpi(parseInt(e.target.value)),
+                      options: [
+                        { value: "0", label: "Original pixels" },
+                        { value: "300", label: "300 DPI (print)" },
+                        { value: "200", label: "200 DPI" },
+                        { value: "150", label: "150 DPI (documents)" },
+                        { value: "96", label: "96 DPI (screen)" },
+                        { value: "72", label: "72 DPI (smallest)" }
+                      ],
+                      icon: "🔍"
+                    },
+                    {
+                      label: "Image DPI",
+                      value: String(dpiOverride),
+                      onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setDpiOverride(parseInt(e.target.value)),
+                      options: [
+                        { value: "0", label: "From file (96 if missing)" },
+                        { value: "72", label: "72 DPI" },
+                        { value: "96", label: "96 DPI" },
+                        { value: "150", label: "150 DPI" },
+                        { value: "200", label: "200 DPI" },
+                        { value: "300", label: "300 DPI (scans)" },
+                        { value: "600", label: "600 DPI" }
+                      ],
+                      icon: "🖨️"
                     }
-                  ].map((setting, idx) => (
+                  ].filter((setting) => !(sideMargins && setting.label === "Margin")).map((setting, idx) => (
                     <div key={idx} className="bg-black/20 rounded-xl p-5 border border-white/5 hover:border-purple-500/30 transition-all duration-300">
                       <div className="flex items-center justify-between mb-3">
                         <label className="text-sm font-semibold text-gray-300 flex items-center space-x-2">
@@ -479,7 +1677,7 @@ export default function ImageToPdf() {
                           />
                           <div className="flex justify-between text-xs text-gray-400">
                             <span>{setting.label === "Quality" ? "Low" : "0mm"}</span>
-                            <span>{setting.label === "Quality" ? "High" : "50mm"}</span>
+                            <span>{setting.label === "Quality" ? "Original" : "50mm"}</span>
                           </div>
                         </div>
                       ) : setting.type === "text" ? (
@@ -506,6 +1704,226 @@ export default function ImageToPdf() {
                     </div>
                   ))}
                 </div>
+
+                {/* Page Dimensions */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5 grid grid-cols-2 md:grid-cols-6 gap-4">
+                  <label className="space-y-1 col-span-2 md:col-span-1">
+                    <span className="text-xs font-semibold text-gray-400">Units</span>
+                    <select value={unit} onChange={(e) => setUnit(e.target.value as LengthUnit)} className={fieldClass}>
+                      {unitOptions.map((option) => (
+                        <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {pageSize === "custom" && (["width", "height"] as const).map((side) => (
+                    <label key={side} className="space-y-1">
+                      <span className="text-xs font-semibold text-gray-400 capitalize">Page {side} ({unit})</span>
+                      <input
+                        // Remount on unit changes so typing isn't fought by rounding
+                        key={`${side}-${unit}`}
+                        type="number"
+                        min="0"
+                        step="any"
+                        defaultValue={displayLength(customSize[side], unit)}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (value > 0) setCustomSize((prev) => ({ ...prev, [side]: toMm(value, unit) }));
+                        }}
+                        className={fieldClass}
+                      />
+                    </label>
+                  ))}
+                  <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer self-end pb-2 col-span-2 md:col-span-1">
+                    <input
+                      type="checkbox"
+                      checked={!!sideMargins}
+                      onChange={(e) => setSideMargins(e.target.checked
+                        ? { top: margin, right: margin, bottom: margin, left: margin }
+                        : null)}
+                      className="w-4 h-4 accent-purple-500"
+                    />
+                    <span>Margin per side</span>
+                  </label>
+                  {sideMargins && (["top", "right", "bottom", "left"] as const).map((side) => (
+                    <label key={side} className="space-y-1">
+                      <span className="text-xs font-semibold text-gray-400 capitalize">{side} ({unit})</span>
+                      <input
+                        key={`${side}-${unit}`}
+                        type="number"
+                        min="0"
+                        step="any"
+                        defaultValue={displayLength(sideMargins[side], unit)}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (value >= 0) setSideMargins((prev) => prev && { ...prev, [side]: toMm(value, unit) });
+                        }}
+                        className={fieldClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                {/* Grid Options */}
+                {gridPreset !== "single" && (
+                  <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5 grid grid-cols-2 md:grid-cols-5 gap-4 animate-fadeIn">
+                    {[
+                      { label: "Rows", key: "rows", min: 1, max: 10 },
+                      { label: "Columns", key: "columns", min: 1, max: 10 },
+                      { label: "Gutter (mm)", key: "gutter", min: 0, max: 30 },
+                    ].map((field) => (
+                      <label key={field.key} className="space-y-1">
+                        <span className="text-xs font-semibold text-gray-400">{field.label}</span>
+                        <input
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          value={grid[field.key as "rows" | "columns" | "gutter"]}
+                          onChange={(e) => {
+                            const value = Math.min(field.max, Math.max(field.min, parseInt(e.target.value) || field.min));
+                            setGrid((prev) => ({ ...prev, [field.key]: value }));
+                            // Hand-picked rows or columns no longer match a preset
+                            if (field.key !== "gutter" && gridPreset !== "contact") setGridPreset("custom");
+                          }}
+                          className={fieldClass}
+                        />
+                      </label>
+                    ))}
+                    <label className="space-y-1">
+                      <span className="text-xs font-semibold text-gray-400">Fill Order</span>
+                      <select
+                        value={grid.fillOrder}
+                        onChange={(e) => setGrid((prev) => ({ ...prev, fillOrder: e.target.value as GridLayout["fillOrder"] }))}
+                        className={fieldClass}
+                      >
+                        <option value="row" className="bg-gray-800">Row by row</option>
+                        <option value="column" className="bg-gray-800">Column by column</option>
+                      </select>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer self-end pb-2">
+                      <input
+                        type="checkbox"
+                        checked={grid.captions}
+                        onChange={(e) => setGrid((prev) => ({ ...prev, captions: e.target.checked }))}
+                        className="w-4 h-4 accent-purple-500"
+                      />
+                      <span>File name captions</span>
+                    </label>
+                  </div>
+                )}
+
+                {/* Enhancement Filters */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">🎨</span>
+                    <span>Enhancement Filters</span>
+                  </h4>
+                  <FilterSettings filters={filters} onChange={setFilters} />
+                  <p className="mt-3 text-xs text-gray-500">
+                    Applied to every image; open an image to change them for it alone. Hold "After" on a thumbnail to compare it with the original.
+                  </p>
+                </div>
+
+                {/* Document Scanner */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">📄</span>
+                    <span>Document Scanner</span>
+                  </h4>
+                  <ScanSettings
+                    enabled={scanMode}
+                    progress={scanProgress}
+                    missed={scanMissed}
+                    onEnabledChange={changeScanMode}
+                  />
+                </div>
+
+                {/* Split Output */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">✂️</span>
+                    <span>Split Output</span>
+                  </h4>
+                  <SplitSettings split={split} onChange={setSplit} />
+                </div>
+
+                {/* Document Info */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">📚</span>
+                    <span>Document Info & Navigation</span>
+                  </h4>
+                  <DocumentSettings
+                    metadata={metadata}
+                    defaultTitle={fileName}
+                    bookmarks={bookmarks}
+                    folderSections={folderSections}
+                    coverPage={coverPage}
+                    onMetadataChange={setMetadata}
+                    onBookmarksChange={setBookmarks}
+                    onFolderSectionsChange={setFolderSections}
+                    onCoverPageChange={setCoverPage}
+                  />
+                </div>
+
+                {/* Password & Permissions */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">🔒</span>
+                    <span>Password & Permissions</span>
+                  </h4>
+                  <SecuritySettings security={security} onChange={setSecurity} />
+                </div>
+
+                {/* Text Recognition */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">🔍</span>
+                    <span>Text Recognition (OCR)</span>
+                  </h4>
+                  <OcrSettings
+                    enabled={ocrEnabled}
+                    languages={ocrLanguages}
+                    onEnabledChange={setOcrEnabled}
+                    onLanguagesChange={setOcrLanguages}
+                  />
+                </div>
+
+                {/* Headers, Footers & Watermark */}
+                <div className="mt-6 bg-black/20 rounded-xl p-5 border border-white/5">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-4 flex items-center space-x-2">
+                    <span className="text-lg">🏷️</span>
+                    <span>Headers, Footers & Watermark</span>
+                  </h4>
+                  <OverlaySettings overlays={overlays} onChange={setOverlays} />
+                </div>
+              </div>
+            )}
+
+            {/* Rejected Files */}
+            {rejectedFiles.length > 0 && (
+              <div className="bg-red-900/20 rounded-2xl p-6 mb-8 border border-red-500/30 animate-fadeIn">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-bold text-red-200 flex items-center space-x-2">
+                    <svg className="w-5 h-5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                    </svg>
+                    <span>{rejectedFiles.length} file(s) could not be added</span>
+                  </h4>
+                  <button
+                    onClick={() => setRejectedFiles([])}
+                    className="text-sm text-red-300 hover:text-white transition-colors duration-300"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {rejectedFiles.map((file, idx) => (
+                    <li key={idx} className="flex flex-wrap gap-x-2">
+                      <span className="font-medium text-white truncate max-w-xs" title={file.name}>{file.name}</span>
+                      <span className="text-red-300">{file.reason}</span>
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
 
@@ -541,7 +1959,9 @@ export default function ImageToPdf() {
                   )}
                 </div>
                 
-                <h3 className="text-2xl font-bold text-white mb-3">Drop your images here</h3>
+                <h3 className="text-2xl font-bold text-white mb-3">
+                  {mode === "toPdf" ? "Drop your images here" : "Drop your PDFs here"}
+                </h3>
                 <p className="text-gray-300 mb-6">or click to browse files</p>
                 
                 <div className="flex flex-col sm:flex-row gap-4 justify-center">
@@ -549,25 +1969,45 @@ export default function ImageToPdf() {
                     <svg className="w-5 h-5 group-hover:scale-110 transition-transform duration-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
                     </svg>
-                    <span>Select Images</span>
+                    <span>{mode === "toPdf" ? "Select Images" : "Select PDFs"}</span>
+                  </button>
+
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      folderInputRef.current?.click();
+                    }}
+                    className="px-8 py-3 rounded-xl border-2 border-white/20 text-white hover:bg-white/10 transition-all duration-300 transform hover:-translate-y-1 flex items-center justify-center space-x-2 group"
+                  >
+                    <svg className="w-5 h-5 group-hover:scale-110 transition-transform duration-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+                    </svg>
+                    <span>Select Folder</span>
                   </button>
                   
                   <div className="flex items-center space-x-2 text-sm text-gray-400">
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
-                    <span>Supports JPG, PNG, WebP, GIF</span>
+                    <span>Supports JPG, PNG, WebP, GIF, HEIC, TIFF, BMP, SVG and PDF</span>
                   </div>
                 </div>
                 
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/png, image/jpeg, image/webp, image/gif"
+                  accept={ACCEPTED_FILE_TYPES}
                   multiple
                   onChange={handleFileInput}
                   className="hidden"
                 />
+                <input
+                  ref={folderInputRef}
+                  type="file"
+                  multiple
+                  onChange={handleFolderInput}
+                  className="hidden"
+                />
               </div>
             </div>
 
@@ -596,6 +2036,7 @@ export default function ImageToPdf() {
                   <div className="flex items-center space-x-4">
                     <button 
                       onClick={clear}
+                      title="Remove every image; Undo or Ctrl+Z brings them back"
                       className="px-4 py-2 bg-gradient-to-r from-red-500/20 to-red-600/20 text-red-300 rounded-xl hover:from-red-600/30 hover:to-red-700/30 transition-all duration-300 border border-red-500/30 hover:border-red-400/50 flex items-center space-x-2 group"
                     >
                       <svg className="w-5 h-5 group-hover:scale-110 transition-transform duration-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -606,36 +2047,156 @@ export default function ImageToPdf() {
                   </div>
                 </div>
                 
+                {/* Bulk Actions */}
+                {selectedIds.length > 0 ? (
+                  <div className="bg-purple-900/30 rounded-2xl p-4 mb-6 border border-purple-500/30 animate-fadeIn">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="text-sm font-semibold text-white mr-2">{selectedIds.length} selected</span>
+                      {[
+                        { label: "Move to start", action: () => moveImages(selectedIds, 0) },
+                        { label: "Move to end", action: () => moveImages(selectedIds, previews.length) },
+                        { label: "Rotate left", action: () => rotateImages(selectedIds, -1) },
+                        { label: "Rotate right", action: () => rotateImages(selectedIds, 1) },
+                        { label: showBulkLayout ? "Hide page layout" : "Page layout…", action: () => setShowBulkLayout(!showBulkLayout) },
+                      ].map(({ label, action }) => (
+                        <button
+                          key={label}
+                          onClick={action}
+                          className="px-3 py-1.5 bg-white/10 text-sm text-white rounded-lg hover:bg-white/20 transition-colors duration-300"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => removeImages(selectedIds)}
+                        className="px-3 py-1.5 bg-red-500/20 text-sm text-red-300 rounded-lg border border-red-500/30 hover:bg-red-500/30 transition-colors duration-300"
+                      >
+                        Remove
+                      </button>
+                      <button
+                        onClick={clearSelection}
+                        className="ml-auto text-sm text-gray-300 hover:text-white transition-colors duration-300"
+                      >
+                        Clear selection
+                      </button>
+                    </div>
+                    {showBulkLayout && (
+                      <div className="mt-4">
+                        <LayoutOverridesPanel
+                          overrides={previews.find((p) => p.id === selectedIds[0])?.layout ?? {}}
+                          defaults={pageLayout}
+                          onChange={(layout) => applyLayout(selectedIds, layout)}
+                        />
+                        <p className="mt-2 text-xs text-gray-500">Applies the same page layout to every selected image.</p>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 mb-4">
+                    Drag images to reorder them. Shift-click or ctrl-click to select several. With the keyboard,
+                    arrows move between images, space selects, ctrl + arrows or Home/End moves and Delete removes.
+                  </p>
+                )}
+
                 {/* Image Grid */}
-                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                <div
+                  className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4"
+                  role="listbox"
+                  aria-multiselectable="true"
+                  aria-label="Images in PDF order"
+                >
                   {previews.map((p, idx) => (
                     <div 
                       key={p.id} 
-                      className="group relative bg-gradient-to-br from-gray-800/40 to-gray-900/40 rounded-2xl overflow-hidden border border-white/10 shadow-lg hover:shadow-2xl transition-all duration-500 hover:-translate-y-2"
+                      ref={(card) => {
+                        cardRefs.current[p.id] = card;
+                      }}
+                      role="option"
+                      aria-selected={selection.has(p.id)}
+                      tabIndex={0}
+                      draggable
+                      onClick={(e) => handleCardClick(e, idx)}
+                      onKeyDown={(e) => handleCardKeyDown(e, idx)}
+                      onDragStart={(e) => handleCardDragStart(e, idx)}
+                      onDragOver={(e) => handleCardDragOver(e, idx)}
+                      onDrop={handleCardDrop}
+                      onDragEnd={handleCardDragEnd}
+                      className={`group relative bg-gradient-to-br from-gray-800/40 to-gray-900/40 rounded-2xl overflow-hidden border shadow-lg hover:shadow-2xl transition-all duration-500 hover:-translate-y-2 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400
+                        ${selection.has(p.id) ? "border-pink-400 ring-2 ring-pink-400/70" : "border-white/10"}
+                        ${draggedIds.current.includes(p.id) && dropTarget !== null ? "opacity-50" : ""}`}
                     >
+                      {/* Drop Position */}
+                      {dropTarget === idx && (
+                        <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-pink-500 z-30"></div>
+                      )}
+                      {dropTarget === idx + 1 && idx === previews.length - 1 && (
+                        <div className="absolute right-0 top-0 bottom-0 w-1.5 bg-pink-500 z-30"></div>
+                      )}
+
                       {/* Image Container */}
-                      <div 
-                        className="h-40 bg-gradient-to-br from-gray-900 to-black flex items-center justify-center relative cursor-pointer overflow-hidden"
-                        onClick={() => openPreview(idx)}
-                      >
+                      <div className="h-40 bg-gradient-to-br from-gray-900 to-black flex items-center justify-center relative overflow-hidden">
                         {/* Loading shimmer */}
                         <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent animate-shimmer"></div>
                         
                         <img
-                          src={p.url}
+                          src={p.frames && p.frameMode === "pick" ? p.frames[p.frameIndex ?? 0].url : comparing === p.id ? p.url : p.editedUrl ?? p.url}
                           alt={p.name}
                           className="max-h-full max-w-full object-contain relative z-10 transition-transform duration-500 group-hover:scale-105"
                         />
                         
-                        {/* Order Badge */}
-                        <div className="absolute top-3 left-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white text-xs font-bold px-2 py-1 rounded-full shadow-lg">
-                          #{idx + 1}
-                        </div>
+                        {/* Order Badge, which also toggles the selection */}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSelection((prev) => toggleId(prev, p.id));
+                            setSelectionAnchor(p.id);
+                          }}
+                          tabIndex={-1}
+                          className="absolute top-3 left-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white text-xs font-bold px-2 py-1 rounded-full shadow-lg z-20"
+                          title={selection.has(p.id) ? "Deselect" : "Select"}
+                        >
+                          {selection.has(p.id) ? "✓ " : ""}#{idx + 1}
+                        </button>
                         
                         {/* File Size Badge */}
                         <div className="absolute top-3 right-3 bg-black/70 text-white text-xs px-2 py-1 rounded-lg backdrop-blur-sm">
                           {formatFileSize(p.file.size)}
                         </div>
+
+                        {/* Layout Override Badge */}
+                        {differingOverrides(pageLayout, p.layout).length > 0 && (
+                          <div
+                            className="absolute bottom-3 right-3 bg-amber-500/90 text-white text-xs font-semibold px-2 py-1 rounded-lg shadow-lg z-20"
+                            title={`Custom ${differingOverrides(pageLayout, p.layout).join(", ")}`}
+                          >
+                            Custom layout
+                          </div>
+                        )}
+
+                        {/* Before / After */}
+                        {p.editedUrl && !(p.frames && p.frameMode === "pick") && (
+                          <button
+                            onClick={(e) => e.stopPropagation()}
+                            onPointerDown={() => setComparing(p.id)}
+                            onPointerUp={() => setComparing(null)}
+                            onPointerLeave={() => setComparing(null)}
+                            tabIndex={-1}
+                            className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-black/70 text-white text-xs px-2 py-1 rounded-lg backdrop-blur-sm z-20 opacity-0 group-hover:opacity-100 transition-opacity duration-300 select-none"
+                            title="Hold to see the original"
+                          >
+                            {comparing === p.id ? "Before" : "After"}
+                          </button>
+                        )}
+
+                        {/* Conversion Status Badge */}
+                        {itemStatus[p.id] && (
+                          <div
+                            className={`absolute bottom-3 left-3 text-xs font-semibold px-2 py-1 rounded-lg shadow-lg z-20 ${statusBadges[itemStatus[p.id].status].className}`}
+                            title={itemStatus[p.id].error}
+                          >
+                            {statusBadges[itemStatus[p.id].status].label}
+                          </div>
+                        )}
                       </div>
                       
                       {/* File Info */}
@@ -643,17 +2204,69 @@ export default function ImageToPdf() {
                         <p className="text-sm font-medium text-white truncate mb-1" title={p.name}>
                           {p.name}
                         </p>
+                        {p.folder && (
+                          <p className="text-xs text-purple-300 truncate mb-1" title={p.folder}>
+                            📁 {p.folder}
+                          </p>
+                        )}
                         <div className="flex items-center justify-between text-xs text-gray-400">
                           <span className="flex items-center">
                             <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                             </svg>
-                            {p.file.type.split('/')[1].toUpperCase()}
+                            {p.pdfPage ? `PDF p. ${p.pdfPage.page}` : detectFormat(p.file)?.toUpperCase()}
                           </span>
+                          <PrintDpi dpi={effectivePrintDpi(p)} />
                           <span className="text-xs text-gray-500">
                             {new Date(p.file.lastModified).toLocaleDateString()}
                           </span>
                         </div>
+
+                        {/* Split Marker, kept above the hover overlay */}
+                        {split?.mode === "markers" && idx > 0 && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              updatePreview(p.id, { splitBefore: !p.splitBefore });
+                            }}
+                            className={`mt-3 w-full px-2 py-1 rounded-lg text-xs font-semibold relative z-20 transition-all duration-300 ${
+                              p.splitBefore
+                                ? "bg-gradient-to-r from-purple-600 to-pink-600 text-white"
+                                : "bg-gray-800/80 border border-gray-700 text-gray-300 hover:text-white"
+                            }`}
+                            title="Begin a new PDF with this image"
+                          >
+                            {p.splitBefore ? "✂️ New PDF starts here" : "Start new PDF"}
+                          </button>
+                        )}
+
+                        {/* Frame Picker for animated images, kept above the hover overlay */}
+                        {p.frames && (
+                          <div className="mt-3 space-y-2 relative z-20" onClick={(e) => e.stopPropagation()}>
+                            <select
+                              value={p.frameMode}
+                              onChange={(e) => updatePreview(p.id, { frameMode: e.target.value as FrameMode })}
+                              className="w-full px-2 py-1 bg-gray-800/80 border border-gray-700 rounded-lg text-xs text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            >
+                              <option value="first" className="bg-gray-800">First frame</option>
+                              <option value="pick" className="bg-gray-800">Frame {(p.frameIndex ?? 0) + 1}</option>
+                              <option value="all" className="bg-gray-800">All {p.frames.length} frames</option>
+                            </select>
+                            <div className="flex space-x-1 overflow-x-auto pb-1">
+                              {p.frames.map((frame, frameIdx) => (
+                                <button
+                                  key={frameIdx}
+                                  onClick={() => updatePreview(p.id, { frameMode: "pick", frameIndex: frameIdx })}
+                                  title={`Frame ${frameIdx + 1}`}
+                                  className={`flex-shrink-0 w-8 h-8 rounded border-2 overflow-hidden bg-black transition-all duration-300
+                                    ${selectedFrames(p).includes(frameIdx) ? 'border-purple-400' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                                >
+                                  <img src={frame.url} alt={`Frame ${frameIdx + 1}`} className="w-full h-full object-contain" />
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                       
                       {/* Hover Actions */}
@@ -709,7 +2322,7 @@ export default function ImageToPdf() {
             {previews.length > 0 && (
               <div className="flex flex-col sm:flex-row gap-6 justify-center items-center mb-8 animate-fadeIn">
                 <button
-                  onClick={generatePDF}
+                  onClick={mode === "toPdf" ? generatePDF : exportAsImages}
                   disabled={isConverting}
                   className={`px-10 py-4 rounded-2xl text-white font-bold flex items-center justify-center transition-all duration-500 transform hover:-translate-y-1 shadow-2xl
                     ${isConverting 
@@ -722,18 +2335,34 @@ export default function ImageToPdf() {
                         <div className="w-6 h-6 border-3 border-white/30 rounded-full"></div>
                         <div className="absolute top-0 left-0 w-6 h-6 border-3 border-t-transparent border-white rounded-full animate-spin"></div>
                       </div>
-                      <span className="ml-3">Generating PDF... {progress}%</span>
+                      <span className="ml-3">
+                        {mode === "toPdf" ? "Generating PDF" : "Exporting images"}... {progress}%
+                      </span>
                     </>
                   ) : (
                     <>
                       <svg className="w-6 h-6 mr-3 group-hover:animate-bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
                       </svg>
-                      <span className="text-lg">Generate PDF</span>
+                      <span className="text-lg">
+                        {mode === "toImages" ? "Export Images" : canResume ? "Resume PDF" : "Generate PDF"}
+                      </span>
                     </>
                   )}
                 </button>
 
+                {isConverting && (
+                  <button
+                    onClick={cancelConversion}
+                    className="px-8 py-4 rounded-2xl border-2 border-red-500/40 text-red-300 hover:bg-red-500/10 font-medium flex items-center justify-center transition-all duration-300 backdrop-blur-sm"
+                  >
+                    <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    <span className="text-lg">Cancel</span>
+                  </button>
+                )}
+
                 <button 
                   onClick={() => fileInputRef.current?.click()}
                   className="px-8 py-4 rounded-2xl border-2 border-white/20 text-white hover:bg-white/10 font-medium flex items-center justify-center transition-all duration-300 transform hover:-translate-y-0.5 backdrop-blur-sm group"
@@ -743,6 +2372,16 @@ export default function ImageToPdf() {
                   </svg>
                   <span className="text-lg">Add More Images</span>
                 </button>
+
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  className="px-8 py-4 rounded-2xl border-2 border-white/20 text-white hover:bg-white/10 font-medium flex items-center justify-center transition-all duration-300 transform hover:-translate-y-0.5 backdrop-blur-sm group"
+                >
+                  <svg className="w-6 h-6 mr-3 group-hover:scale-110 transition-transform duration-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+                  </svg>
+                  <span className="text-lg">Add Folder</span>
+                </button>
               </div>
             )}
 
@@ -812,7 +2451,7 @@ export default function ImageToPdf() {
       {/* Image Preview Modal */}
       {selectedPreview !== null && (
         <div className="fixed inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fadeIn">
-          <div className="bg-gradient-to-br from-gray-900 to-black rounded-3xl max-w-5xl max-h-[90vh] overflow-hidden border border-white/10 shadow-2xl">
+          <div className="bg-gradient-to-br from-gray-900 to-black rounded-3xl max-w-5xl max-h-[90vh] overflow-y-auto border border-white/10 shadow-2xl">
             {/* Modal Header */}
             <div className="p-6 border-b border-white/10 bg-gradient-to-r from-gray-900 to-black flex justify-between items-center">
               <div>
@@ -833,13 +2472,41 @@ export default function ImageToPdf() {
               </button>
             </div>
             
-            {/* Modal Image */}
+            {/* Modal Editor */}
             <div className="p-8 flex items-center justify-center bg-gradient-to-br from-gray-950 to-black">
-              <img
-                src={previews[selectedPreview].url}
-                alt={previews[selectedPreview].name}
-                className="max-h-[60vh] max-w-full object-contain rounded-xl shadow-2xl"
+              <ImageEditor
+                key={previews[selectedPreview].id}
+                file={previews[selectedPreview].file}
+                name={previews[selectedPreview].name}
+                edits={previews[selectedPreview].edits ?? NO_EDITS}
+                defaultFilters={filters}
+                onChange={(edits) => editImage(previews[selectedPreview].id, edits)}
+              />
+            </div>
+
+            {/* Page Layout Overrides */}
+            <div className="px-8 pb-6 bg-gradient-to-br from-gray-950 to-black">
+              <h4 className="text-sm font-semibold text-gray-300 mb-3">Page layout for this image</h4>
+              {gridPreset !== "single" && (
+                <p className="text-xs text-amber-300 mb-3">Only Image Size applies while several images share a page.</p>
+              )}
+              <LayoutOverridesPanel
+                overrides={previews[selectedPreview].layout ?? {}}
+                defaults={pageLayout}
+                onChange={(layout) => updatePreview(previews[selectedPreview].id, {
+                  layout: Object.keys(layout).length ? layout : undefined,
+                })}
               />
+              <label className="block space-y-1 mt-4">
+                <span className="text-xs font-semibold text-gray-400">Caption and bookmark title</span>
+                <input
+                  type="text"
+                  value={previews[selectedPreview].caption ?? ""}
+                  placeholder={previews[selectedPreview].name}
+                  onChange={(e) => updatePreview(previews[selectedPreview].id, { caption: e.target.value || undefined })}
+                  className={fieldClass}
+                />
+              </label>
             </div>
             
             {/* Modal Footer */}
@@ -0,0 +1,89 @@
+import {
+  type ImageSize,
+  type LayoutOverrides,
+  type OrientationSetting,
+  type PageLayout,
+  type PageSize,
+} from "../lib";
+import { formatMargin, imageSizeOptions, orientationOptions, pageSizeOptions } from "./layoutOptions";
+import { fieldClass } from "./fieldStyles";
+
+type LayoutOverridesPanelProps = {
+  overrides: LayoutOverrides;
+  defaults: PageLayout;
+  onChange: (overrides: LayoutOverrides) => void;
+};
+
+const labelFor = (options: { value: string; label: string }[], value: string) =>
+  options.find((option) => option.value === value)?.label ?? value;
+
+// Per-image page settings; an empty choice falls back to the global setting
+export default function LayoutOverridesPanel({ overrides, defaults, onChange }: LayoutOverridesPanelProps) {
+  // Setting a field back to undefined removes the override entirely
+  const update = (changes: LayoutOverrides) => {
+    const next: LayoutOverrides = { ...overrides, ...changes };
+    (Object.keys(next) as (keyof LayoutOverrides)[]).forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 w-full">
+      <label className="space-y-1">
+        <span className="text-xs font-semibold text-gray-400">Page Size</span>
+        <select
+          value={overrides.pageSize ?? ""}
+          onChange={(e) => update({ pageSize: (e.target.value || undefined) as PageSize | undefined })}
+          className={fieldClass}
+        >
+          <option value="" className="bg-gray-800">Default ({labelFor(pageSizeOptions, defaults.pageSize)})</option>
+          {pageSizeOptions.map((option) => (
+            <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="space-y-1">
+        <span className="text-xs font-semibold text-gray-400">Orientation</span>
+        <select
+          value={overrides.orientation ?? ""}
+          onChange={(e) => update({ orientation: (e.target.value || undefined) as OrientationSetting | undefined })}
+          className={fieldClass}
+        >
+          <option value="" className="bg-gray-800">Default ({labelFor(orientationOptions, defaults.orientation)})</option>
+          {orientationOptions.map((option) => (
+            <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="space-y-1">
+        <span className="text-xs font-semibold text-gray-400">Image Size</span>
+        <select
+          value={overrides.imageSize ?? ""}
+          onChange={(e) => update({ imageSize: (e.target.value || undefined) as ImageSize | undefined })}
+          className={fieldClass}
+        >
+          <option value="" className="bg-gray-800">Default ({labelFor(imageSizeOptions, defaults.imageSize)})</option>
+          {imageSizeOptions.map((option) => (
+            <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="space-y-1">
+        <span className="text-xs font-semibold text-gray-400">Margin (mm)</span>
+        <input
+          type="number"
+          min="0"
+          max="50"
+          value={typeof overrides.margin === "number" ? overrides.margin : ""}
+          placeholder={`Default (${formatMargin(defaults.margin)})`}
+          onChange={(e) => update({ margin: e.target.value === "" ? undefined : Math.min(50, Math.max(0, parseInt(e.target.value) || 0)) })}
+          className={fieldClass}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { OCR_LANGUAGES, type OcrLanguage } from "../lib";
+
+type OcrSettingsProps = {
+  enabled: boolean;
+  languages: OcrLanguage[];
+  onEnabledChange: (enabled: boolean) => void;
+  onLanguagesChange: (languages: OcrLanguage[]) => void;
+};
+
+const languageCodes = Object.keys(OCR_LANGUAGES) as OcrLanguage[];
+
+// Searchable text layer and the languages it is recognised in
+export default function OcrSettings({ enabled, languages, onEnabledChange, onLanguagesChange }: OcrSettingsProps) {
+  const toggleLanguage = (language: OcrLanguage, selected: boolean) => {
+    const next = selected
+      ? languageCodes.filter((code) => code === language || languages.includes(code))
+      : languages.filter((code) => code !== language);
+    // Recognition needs at least one language
+    if (next.length) onLanguagesChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="w-4 h-4 accent-purple-500"
+        />
+        <span>Make text searchable and selectable</span>
+      </label>
+
+      {enabled && (
+        <>
+          <div className="flex flex-wrap gap-6">
+            {languageCodes.map((language) => (
+              <label key={language} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={languages.includes(language)}
+                  onChange={(e) => toggleLanguage(language, e.target.checked)}
+                  className="w-4 h-4 accent-purple-500"
+                />
+                <span>{OCR_LANGUAGES[language]}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Text is recognised on your device with the language data bundled in the app, so nothing is uploaded.
+            Each extra language makes recognition slower. Pages copied from imported PDFs keep their own text.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
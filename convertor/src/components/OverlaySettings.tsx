@@ -0,0 +1,195 @@
+import { useState } from "react";
+import {
+  loadWatermarkImage,
+  TEMPLATE_TOKENS,
+  type PageOverlays,
+  type Watermark,
+  type WatermarkPosition,
+} from "../lib";
+import { fieldClass } from "./fieldStyles";
+
+type OverlaySettingsProps = {
+  overlays: PageOverlays;
+  onChange: (overlays: PageOverlays) => void;
+};
+
+const positionOptions: { value: WatermarkPosition; label: string }[] = [
+  { value: "center", label: "Center" },
+  { value: "top", label: "Top" },
+  { value: "bottom", label: "Bottom" },
+  { value: "top-left", label: "Top left" },
+  { value: "top-right", label: "Top right" },
+  { value: "bottom-left", label: "Bottom left" },
+  { value: "bottom-right", label: "Bottom right" }
+];
+
+const DEFAULT_WATERMARK: Watermark = {
+  kind: "text",
+  text: "CONFIDENTIAL",
+  opacity: 0.2,
+  position: "center",
+  angle: 45,
+  size: 60,
+  color: "#888888",
+};
+
+// Header, footer and watermark settings; text stays vector in the PDF
+export default function OverlaySettings({ overlays, onChange }: OverlaySettingsProps) {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const watermark = overlays.watermark;
+
+  const updateWatermark = (changes: Partial<Watermark>) =>
+    onChange({ ...overlays, watermark: { ...(watermark ?? DEFAULT_WATERMARK), ...changes } });
+
+  const handleLogo = async (file?: File) => {
+    if (!file) return;
+    try {
+      updateWatermark({ kind: "image", image: await loadWatermarkImage(file), size: 0.4 });
+      setLogoError(null);
+    } catch {
+      setLogoError("That image could not be used as a logo");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(["header", "footer"] as const).map((field) => (
+          <label key={field} className="space-y-1">
+            <span className="text-xs font-semibold text-gray-400 capitalize">{field}</span>
+            <input
+              type="text"
+              value={overlays[field] ?? ""}
+              placeholder={field === "header" ? "{filename}" : "Page {page} of {pages}"}
+              onChange={(e) => onChange({ ...overlays, [field]: e.target.value || undefined })}
+              className={fieldClass}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Available tokens: {TEMPLATE_TOKENS.join(" ")}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+        <label className="space-y-1">
+          <span className="text-xs font-semibold text-gray-400">Watermark</span>
+          <select
+            value={watermark?.kind ?? "none"}
+            onChange={(e) => e.target.value === "none"
+              ? onChange({ ...overlays, watermark: undefined })
+              : updateWatermark({
+                kind: e.target.value as Watermark["kind"],
+                // Text and logos are sized in different units
+                size: e.target.value === "image" ? 0.4 : DEFAULT_WATERMARK.size,
+              })}
+            className={fieldClass}
+          >
+            <option value="none" className="bg-gray-800">None</option>
+            <option value="text" className="bg-gray-800">Text</option>
+            <option value="image" className="bg-gray-800">Logo</option>
+          </select>
+        </label>
+
+        {watermark?.kind === "text" && (
+          <>
+            <label className="space-y-1 col-span-2">
+              <span className="text-xs font-semibold text-gray-400">Text</span>
+              <input
+                type="text"
+                value={watermark.text ?? ""}
+                onChange={(e) => updateWatermark({ text: e.target.value })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-gray-400">Size (pt)</span>
+              <input
+                type="number"
+                min="6"
+                max="200"
+                value={watermark.size}
+                onChange={(e) => updateWatermark({ size: Math.min(200, Math.max(6, parseInt(e.target.value) || 6)) })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-gray-400">Angle (°)</span>
+              <input
+                type="number"
+                min="-90"
+                max="90"
+                value={watermark.angle}
+                onChange={(e) => updateWatermark({ angle: Math.min(90, Math.max(-90, parseInt(e.target.value) || 0)) })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-gray-400">Color</span>
+              <input
+                type="color"
+                value={watermark.color}
+                onChange={(e) => updateWatermark({ color: e.target.value })}
+                className="w-full h-10 bg-gray-800/50 border border-gray-700 rounded-xl cursor-pointer"
+              />
+            </label>
+          </>
+        )}
+
+        {watermark?.kind === "image" && (
+          <>
+            <label className="space-y-1 col-span-2">
+              <span className="text-xs font-semibold text-gray-400">Logo image</span>
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => handleLogo(e.target.files?.[0])}
+                className={`${fieldClass} file:mr-3 file:px-3 file:py-1 file:rounded-lg file:border-0 file:bg-purple-600 file:text-white`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-gray-400">Width (% of page)</span>
+              <input
+                type="number"
+                min="5"
+                max="100"
+                value={Math.round(watermark.size * 100)}
+                onChange={(e) => updateWatermark({ size: Math.min(100, Math.max(5, parseInt(e.target.value) || 5)) / 100 })}
+                className={fieldClass}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      {logoError && <p className="text-xs text-red-300">{logoError}</p>}
+
+      {watermark && (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+          <label className="space-y-1">
+            <span className="text-xs font-semibold text-gray-400">Position</span>
+            <select
+              value={watermark.position}
+              onChange={(e) => updateWatermark({ position: e.target.value as WatermarkPosition })}
+              className={fieldClass}
+            >
+              {positionOptions.map((option) => (
+                <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 col-span-2">
+            <span className="text-xs font-semibold text-gray-400">Opacity {Math.round(watermark.opacity * 100)}%</span>
+            <input
+              type="range"
+              min="0.05"
+              max="1"
+              step="0.05"
+              value={watermark.opacity}
+              onChange={(e) => updateWatermark({ opacity: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-gradient-to-r [&::-webkit-slider-thumb]:from-purple-500 [&::-webkit-slider-thumb]:to-pink-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
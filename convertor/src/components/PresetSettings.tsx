@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { decodeJson, encodeJson } from "../lib";
+import { presetSettings, type PresetSettings as PresetValues, type SessionSettings, type SettingsPreset } from "./sessionSettings";
+import { fieldClass } from "./fieldStyles";
+
+type PresetSettingsProps = {
+  settings: SessionSettings;
+  onApply: (settings: PresetValues) => void;
+};
+
+const STORAGE_KEY = "image-to-pdf-presets";
+
+const buttonClass = "px-3 py-2 bg-white/10 text-sm text-white rounded-xl hover:bg-white/20 transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Presets are small, so they live in localStorage next to the IndexedDB session
+const loadPresets = (): SettingsPreset[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? decodeJson<SettingsPreset[]>(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Whether the presets were written; usually fails when the storage is full or blocked
+const storePresets = (presets: SettingsPreset[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, encodeJson(presets));
+    return true;
+  } catch (error) {
+    console.error("Error saving presets:", error);
+    return false;
+  }
+};
+
+// Named sets of settings that can be saved, applied and deleted
+export default function PresetSettings({ settings, onApply }: PresetSettingsProps) {
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresets);
+  const [selected, setSelected] = useState<string>("");
+  const [name, setName] = useState<string>("");
+
+  // The list only changes once it is stored, so it never shows presets that are gone after a reload
+  const updatePresets = (next: SettingsPreset[]): boolean => {
+    if (!storePresets(next)) {
+      alert("The presets could not be saved. The browser storage may be full or blocked.");
+      return false;
+    }
+    setPresets(next);
+    return true;
+  };
+
+  // Saving under an existing name replaces that preset
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const preset = { name: trimmed, settings: presetSettings(settings) };
+    const exists = presets.some((p) => p.name === trimmed);
+    if (!updatePresets(exists ? presets.map((p) => (p.name === trimmed ? preset : p)) : [...presets, preset])) return;
+    setSelected(trimmed);
+    setName("");
+  };
+
+  const remove = () => {
+    if (!updatePresets(presets.filter((p) => p.name !== selected))) return;
+    setSelected("");
+  };
+
+  const apply = () => {
+    const preset = presets.find((p) => p.name === selected);
+    if (preset) onApply(preset.settings);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-1">
+        <span className="text-xs font-semibold text-gray-400">Saved presets</span>
+        <div className="flex gap-2">
+          <select value={selected} onChange={(e) => setSelected(e.target.value)} className={fieldClass}>
+            <option value="" className="bg-gray-800">
+              {presets.length ? "Choose a preset" : "No presets saved yet"}
+            </option>
+            {presets.map((preset) => (
+              <option key={preset.name} value={preset.name} className="bg-gray-800">{preset.name}</option>
+            ))}
+          </select>
+          <button onClick={apply} disabled={!selected} className={buttonClass}>Apply</button>
+          <button onClick={remove} disabled={!selected} className={`${buttonClass} text-red-300`}>Delete</button>
+        </div>
+      </div>
+
+      <label className="space-y-1">
+        <span className="text-xs font-semibold text-gray-400">Save current settings as</span>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && save()}
+            placeholder="e.g. Receipts"
+            className={fieldClass}
+          />
+          <button onClick={save} disabled={!name.trim()} className={buttonClass}>Save</button>
+        </div>
+      </label>
+
+      <p className="md:col-span-2 text-xs text-gray-500">
+        Presets keep the page, output, filter and export settings, but not the file name, title or passwords.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+type ScanSettingsProps = {
+  enabled: boolean;
+  // Images checked so far while pages are being detected
+  progress: { done: number; total: number } | null;
+  // Images in which no page stood out
+  missed: string[];
+  onEnabledChange: (enabled: boolean) => void;
+};
+
+// Document mode straightens photographed pages and crops away what's around them
+export default function ScanSettings({ enabled, progress, missed, onEnabledChange }: ScanSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="w-4 h-4 accent-purple-500"
+        />
+        <span>Straighten and crop photographed pages</span>
+      </label>
+
+      {enabled && (
+        <>
+          {progress && (
+            <p className="text-sm text-purple-200 animate-pulse">
+              Finding pages... {progress.done} of {progress.total}
+            </p>
+          )}
+          {!progress && missed.length > 0 && (
+            <p className="text-sm text-amber-300">
+              No page found in {missed.length === 1 ? missed[0] : `${missed.length} images`}.
+              Open {missed.length === 1 ? "it" : "them"} and use "Straighten Page" to place the corners by hand.
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Each image is searched for a light page on a darker surface, which is then flattened to a rectangle.
+            Everything runs on your device. Adjust the corners of any image from its preview, and turn this off to
+            undo the straightening everywhere. Pages imported from PDFs are left as they are.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
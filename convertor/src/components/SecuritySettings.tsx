@@ -0,0 +1,96 @@
+import { useState } from "react";
+import {
+  isProtected,
+  passwordWeaknesses,
+  ALL_PERMISSIONS,
+  type PdfPermission,
+  type PdfSecurity,
+} from "../lib";
+import { fieldClass } from "./fieldStyles";
+
+type SecuritySettingsProps = {
+  security: PdfSecurity;
+  onChange: (security: PdfSecurity) => void;
+};
+
+const permissionLabels: Record<PdfPermission, string> = {
+  print: "Print",
+  copy: "Copy text and images",
+  modify: "Modify",
+  annotate: "Annotate and fill forms",
+};
+
+// Passwords and permission flags for the generated PDF
+export default function SecuritySettings({ security, onChange }: SecuritySettingsProps) {
+  const [showPasswords, setShowPasswords] = useState(false);
+
+  const togglePermission = (permission: PdfPermission, allowed: boolean) =>
+    onChange({
+      ...security,
+      permissions: allowed
+        ? ALL_PERMISSIONS.filter((p) => p === permission || security.permissions.includes(p))
+        : security.permissions.filter((p) => p !== permission),
+    });
+
+  const passwords = [
+    { key: "userPassword", label: "Password to open", placeholder: "Anyone can open it" },
+    { key: "ownerPassword", label: "Owner password", placeholder: "Random, so nobody can lift restrictions" },
+  ] as const;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {passwords.map((field) => {
+          const weaknesses = passwordWeaknesses(security[field.key] ?? "");
+          return (
+            <label key={field.key} className="space-y-1">
+              <span className="text-xs font-semibold text-gray-400">{field.label}</span>
+              <input
+                type={showPasswords ? "text" : "password"}
+                autoComplete="new-password"
+                value={security[field.key] ?? ""}
+                placeholder={field.placeholder}
+                onChange={(e) => onChange({ ...security, [field.key]: e.target.value || undefined })}
+                className={fieldClass}
+              />
+              {weaknesses.length > 0 && (
+                <span className="block text-xs text-amber-300">Weak password: {weaknesses.join(", ")}</span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        {ALL_PERMISSIONS.map((permission) => (
+          <label key={permission} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={security.permissions.includes(permission)}
+              onChange={(e) => togglePermission(permission, e.target.checked)}
+              className="w-4 h-4 accent-purple-500"
+            />
+            <span>{permissionLabels[permission]}</span>
+          </label>
+        ))}
+        <label className="flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showPasswords}
+            onChange={(e) => setShowPasswords(e.target.checked)}
+            className="w-4 h-4 accent-purple-500"
+          />
+          <span>Show passwords</span>
+        </label>
+      </div>
+
+      {isProtected(security) && (
+        <p className="text-xs text-gray-500">
+          The PDF is encrypted with the standard 40-bit RC4 security handler. It keeps casual readers out
+          and viewers honour the permissions, but it is not strong encryption. Pages of imported PDFs are added
+          as images instead of being copied, so their text can't be selected.
+        </p>
+      )}
+    </div>
+  );
+}
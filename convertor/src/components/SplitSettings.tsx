@@ -0,0 +1,111 @@
+import type { SplitOptions } from "../lib";
+import { fieldClass } from "./fieldStyles";
+
+type SplitSettingsProps = {
+  split?: SplitOptions;
+  onChange: (split: SplitOptions | undefined) => void;
+};
+
+type SplitChoice = "none" | "perImage" | "count" | "markers" | "size" | "folders";
+
+const choices: { value: SplitChoice; label: string }[] = [
+  { value: "none", label: "One PDF with every image" },
+  { value: "perImage", label: "One PDF per image" },
+  { value: "count", label: "A new PDF every N images" },
+  { value: "markers", label: "At markers set in the grid" },
+  { value: "size", label: "Keep each PDF under a size limit" },
+  { value: "folders", label: "One PDF per dropped folder" }
+];
+
+const BYTES_PER_MB = 1024 * 1024;
+
+const DEFAULT_COUNT = 10;
+// Common email attachment limit
+const DEFAULT_MAX_MB = 10;
+
+const choiceOf = (split?: SplitOptions): SplitChoice => {
+  if (!split) return "none";
+  if (split.mode === "count") return split.count === 1 ? "perImage" : "count";
+  return split.mode;
+};
+
+const splitFor = (choice: SplitChoice): SplitOptions | undefined => {
+  switch (choice) {
+    case "none":
+      return undefined;
+    case "perImage":
+      return { mode: "count", count: 1 };
+    case "count":
+      return { mode: "count", count: DEFAULT_COUNT };
+    case "markers":
+      return { mode: "markers" };
+    case "size":
+      return { mode: "size", maxBytes: DEFAULT_MAX_MB * BYTES_PER_MB };
+    case "folders":
+      return { mode: "folders" };
+  }
+};
+
+// How the images are spread over several PDFs, which then download as one ZIP
+export default function SplitSettings({ split, onChange }: SplitSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="space-y-1">
+          <span className="text-xs font-semibold text-gray-400">Split into</span>
+          <select
+            value={choiceOf(split)}
+            onChange={(e) => onChange(splitFor(e.target.value as SplitChoice))}
+            className={fieldClass}
+          >
+            {choices.map((choice) => (
+              <option key={choice.value} value={choice.value} className="bg-gray-800">{choice.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {split?.mode === "count" && split.count > 1 && (
+          <label className="space-y-1">
+            <span className="text-xs font-semibold text-gray-400">Images per PDF</span>
+            <input
+              type="number"
+              min={2}
+              value={split.count}
+              onChange={(e) => onChange({ mode: "count", count: Math.max(2, parseInt(e.target.value) || 2) })}
+              className={fieldClass}
+            />
+          </label>
+        )}
+
+        {split?.mode === "size" && (
+          <label className="space-y-1">
+            <span className="text-xs font-semibold text-gray-400">Maximum size per PDF (MB)</span>
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={split.maxBytes / BYTES_PER_MB}
+              onChange={(e) => onChange({ mode: "size", maxBytes: Math.max(1, parseFloat(e.target.value) || 1) * BYTES_PER_MB })}
+              className={fieldClass}
+            />
+          </label>
+        )}
+      </div>
+
+      {split && (
+        <p className="text-xs text-gray-500">
+          {split.mode === "markers"
+            ? "Use \"Start new PDF\" on an image in the grid to begin a new file with it. "
+            : ""}
+          {split.mode === "folders"
+            ? "Images move to a new PDF whenever the next one comes from another folder, so keep each folder's images together. "
+            : ""}
+          {split.mode === "size"
+            ? "Sizes are estimated while converting, so a single image larger than the limit still gets its own PDF. "
+            : ""}
+          The PDFs are numbered in order{split.mode === "folders" ? ", named after their folder," : ""} and downloaded together as a ZIP.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+// Tailwind classes shared by the inputs and selects of the settings panels
+export const fieldClass = "w-full px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-xl text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300";
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { moveItems, rangeBetween } from "./gridSelection";
+
+describe("moveItems", () => {
+  const items = ["a", "b", "c", "d", "e"];
+
+  it("moves an item forward, in front of the target", () => {
+    expect(moveItems(items, [0], 3)).toEqual(["b", "c", "a", "d", "e"]);
+  });
+
+  it("moves an item back", () => {
+    expect(moveItems(items, [4], 1)).toEqual(["a", "e", "b", "c", "d"]);
+  });
+
+  it("moves to the end for a target past the last item", () => {
+    expect(moveItems(items, [1], items.length)).toEqual(["a", "c", "d", "e", "b"]);
+  });
+
+  it("keeps several items together in their relative order", () => {
+    expect(moveItems(items, [3, 0], 2)).toEqual(["b", "a", "d", "c", "e"]);
+    expect(moveItems(items, [0, 4], 5)).toEqual(["b", "c", "d", "a", "e"]);
+  });
+
+  it("leaves the list alone when the items are dropped where they are", () => {
+    expect(moveItems(items, [1, 2], 1)).toEqual(items);
+  });
+});
+
+describe("rangeBetween", () => {
+  const ids = ["a", "b", "c", "d"];
+
+  it("selects from the anchor to the clicked item in grid order", () => {
+    expect(rangeBetween(ids, "b", "d")).toEqual(["b", "c", "d"]);
+    expect(rangeBetween(ids, "d", "b")).toEqual(["b", "c", "d"]);
+  });
+
+  it("selects only the clicked item without a usable anchor", () => {
+    expect(rangeBetween(ids, null, "c")).toEqual(["c"]);
+    expect(rangeBetween(ids, "gone", "c")).toEqual(["c"]);
+  });
+});
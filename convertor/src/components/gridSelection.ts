@@ -0,0 +1,31 @@
+// Ordering and selection helpers for the preview grid
+
+// Move the items at `indexes` so they sit together before the item now at `target`,
+// keeping their relative order; a target of items.length moves them to the end
+export const moveItems = <T>(items: T[], indexes: number[], target: number): T[] => {
+  const moving = new Set(indexes);
+  const moved = items.filter((_, i) => moving.has(i));
+  const rest = items.filter((_, i) => !moving.has(i));
+  // Items taken out in front of the target shift it to the left
+  const insertAt = target - indexes.filter((i) => i < target).length;
+  return [...rest.slice(0, insertAt), ...moved, ...rest.slice(insertAt)];
+};
+
+// Ids between the anchor and the clicked item, inclusive, in grid order
+export const rangeBetween = (ids: string[], anchorId: string | null, id: string): string[] => {
+  const from = anchorId ? ids.indexOf(anchorId) : -1;
+  const to = ids.indexOf(id);
+  if (from === -1 || to === -1) return [id];
+  return ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
+
+export const toggleId = (selection: Set<string>, id: string): Set<string> => {
+  const next = new Set(selection);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+};
+
+// Index where a dragged card lands, from the pointer position over a card
+export const dropIndex = (overIndex: number, pointerX: number, rect: DOMRect): number =>
+  pointerX > rect.left + rect.width / 2 ? overIndex + 1 : overIndex;
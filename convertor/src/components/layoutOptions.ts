@@ -0,0 +1,71 @@
+import {
+  resolveMargins,
+  type GridLayout,
+  type ImageSize,
+  type LengthUnit,
+  type Margins,
+  type OrientationSetting,
+  type PageSize,
+} from "../lib";
+
+// Select options shared by the settings panel and the per-image layout overrides
+
+export const pageSizeOptions: { value: PageSize; label: string }[] = [
+  { value: "a4", label: "A4 (210 × 297mm)" },
+  { value: "a5", label: "A5 (148 × 210mm)" },
+  { value: "a3", label: "A3 (297 × 420mm)" },
+  { value: "b5", label: "B5 (176 × 250mm)" },
+  { value: "letter", label: "Letter (216 × 279mm)" },
+  { value: "legal", label: "Legal (216 × 356mm)" },
+  { value: "tabloid", label: "Tabloid (279 × 432mm)" },
+  { value: "photo4x6", label: "Photo 4 × 6in" },
+  { value: "custom", label: "Custom size" },
+  { value: "image", label: "Match image dimensions" }
+];
+
+export const unitOptions: { value: LengthUnit; label: string }[] = [
+  { value: "mm", label: "Millimetres (mm)" },
+  { value: "in", label: "Inches (in)" },
+  { value: "pt", label: "Points (pt)" }
+];
+
+// Margin as shown in labels, top/right/bottom/left when the sides differ
+export const formatMargin = (margin: number | Margins): string => {
+  const { top, right, bottom, left } = resolveMargins(margin);
+  return top === right && top === bottom && top === left
+    ? `${top}mm`
+    : `${top}/${right}/${bottom}/${left}mm`;
+};
+
+export const orientationOptions: { value: OrientationSetting; label: string }[] = [
+  { value: "portrait", label: "Portrait" },
+  { value: "landscape", label: "Landscape" },
+  { value: "auto", label: "Auto (landscape for wide images)" }
+];
+
+export const imageSizeOptions: { value: ImageSize; label: string }[] = [
+  { value: "fit", label: "Fit to Page" },
+  { value: "fill", label: "Fill Page" },
+  { value: "original", label: "Original Size" }
+];
+
+// "Images per Page" choices; the grid fields each preset sets, none for one image per page
+export type GridPreset = "single" | "2" | "4" | "6" | "9" | "custom" | "contact";
+
+export const gridPresetOptions: { value: GridPreset; label: string; grid?: Partial<GridLayout> }[] = [
+  { value: "single", label: "1 (one image per page)" },
+  { value: "2", label: "2 per page", grid: { rows: 2, columns: 1 } },
+  { value: "4", label: "4 per page", grid: { rows: 2, columns: 2 } },
+  { value: "6", label: "6 per page", grid: { rows: 3, columns: 2 } },
+  { value: "9", label: "9 per page", grid: { rows: 3, columns: 3 } },
+  { value: "custom", label: "Custom grid", grid: {} },
+  { value: "contact", label: "Contact sheet (with captions)", grid: { rows: 5, columns: 4, captions: true } }
+];
+
+export const DEFAULT_GRID: GridLayout = {
+  rows: 2,
+  columns: 2,
+  gutter: 5,
+  fillOrder: "row",
+  captions: false,
+};
@@ -0,0 +1,120 @@
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_IMAGE_EXPORT,
+  type DocumentMetadata,
+  type ExportPackaging,
+  type GridLayout,
+  type ImageExportOptions,
+  type ImageFilters,
+  type ImageSize,
+  type LengthUnit,
+  type Margins,
+  type OcrLanguage,
+  type OrientationSetting,
+  type PageDimensions,
+  type PageOverlays,
+  type PageSize,
+  type PdfSecurity,
+  type SplitOptions,
+} from "../lib";
+import { DEFAULT_GRID, type GridPreset } from "./layoutOptions";
+
+// Which way the tool converts: images into one PDF, or pages out as image files
+export type ConvertMode = "toPdf" | "toImages";
+
+// Every setting of the converter, as saved with the session
+export type SessionSettings = {
+  mode: ConvertMode;
+  pageSize: PageSize;
+  orientation: OrientationSetting;
+  imageSize: ImageSize;
+  margin: number;
+  // Set when each side has its own margin, replacing the uniform margin
+  sideMargins: Margins | null;
+  customSize: PageDimensions;
+  unit: LengthUnit;
+  gridPreset: GridPreset;
+  grid: GridLayout;
+  quality: number;
+  // Maximum print resolution, 0 keeps every source pixel
+  targetDpi: number;
+  // 0 uses the resolution stored in each file
+  dpiOverride: number;
+  overlays: PageOverlays;
+  metadata: DocumentMetadata;
+  bookmarks: boolean;
+  coverPage: boolean;
+  security: PdfSecurity;
+  ocrEnabled: boolean;
+  ocrLanguages: OcrLanguage[];
+  imageExport: ImageExportOptions;
+  pageRange: string;
+  packaging: ExportPackaging;
+  split?: SplitOptions;
+  folderSections: boolean;
+  // Document mode: find the page in every photo and flatten it
+  scanMode: boolean;
+  filters: ImageFilters;
+  fileName: string;
+  skipFailed: boolean;
+};
+
+export const DEFAULT_SETTINGS: SessionSettings = {
+  mode: "toPdf",
+  pageSize: "a4",
+  orientation: "portrait",
+  imageSize: "fit",
+  margin: 10,
+  sideMargins: null,
+  customSize: { width: 100, height: 150 },
+  unit: "mm",
+  gridPreset: "single",
+  grid: DEFAULT_GRID,
+  quality: 1,
+  targetDpi: 0,
+  dpiOverride: 0,
+  overlays: {},
+  metadata: {},
+  bookmarks: true,
+  coverPage: false,
+  security: { permissions: ALL_PERMISSIONS },
+  ocrEnabled: false,
+  ocrLanguages: ["eng"],
+  imageExport: DEFAULT_IMAGE_EXPORT,
+  pageRange: "",
+  packaging: "zip",
+  split: undefined,
+  folderSections: false,
+  scanMode: false,
+  filters: {},
+  fileName: "images-to-pdf",
+  skipFailed: true,
+};
+
+// Passwords are never written to disk, only the permissions are kept
+export const storableSettings = (settings: SessionSettings): SessionSettings => ({
+  ...settings,
+  security: { permissions: settings.security.permissions },
+});
+
+// Saved settings with anything missing, such as options added since they were saved, at its default
+export const completeSettings = (saved: Partial<SessionSettings>): SessionSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...saved,
+});
+
+// Settings tied to one document rather than a way of working, which presets leave alone
+const DOCUMENT_SETTINGS = ["mode", "fileName", "metadata", "pageRange"] as const;
+
+export type PresetSettings = Omit<SessionSettings, (typeof DOCUMENT_SETTINGS)[number]>;
+
+export type SettingsPreset = {
+  name: string;
+  settings: PresetSettings;
+};
+
+export const presetSettings = (settings: SessionSettings): PresetSettings => {
+  const preset: Partial<SessionSettings> = { ...storableSettings(settings) };
+  DOCUMENT_SETTINGS.forEach((key) => delete preset[key]);
+  return preset as PresetSettings;
+};
@@ -0,0 +1,15 @@
+// Off-screen canvases, which work on the main thread and in workers alike
+export const create2dCanvas = (
+  width: number,
+  height: number,
+  settings?: CanvasRenderingContext2DSettings
+) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d", settings);
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  return { canvas, ctx };
+};
+
+// For pixels that are read back, which keeps the canvas in memory rather than on the GPU
+export const createPixelCanvas = (width: number, height: number) =>
+  create2dCanvas(width, height, { willReadFrequently: true });
@@ -0,0 +1,503 @@
+import jsPDF from "jspdf";
+import {
+  compressImage,
+  constrainSize,
+  decodeImage,
+  embedOriginal,
+  pdfImageType,
+  PNG_COMPRESSION,
+  type CompressedImage,
+} from "./imageCompression";
+import {
+  cellImageBox,
+  computeGridCells,
+  fitInBox,
+  getGridPageDimensions,
+  GRID_CAPTION_HEIGHT,
+  imagesPerPage,
+  layoutPage,
+  mmToPx,
+  resolveLayout,
+  DEFAULT_DPI,
+  type GridLayout,
+  type LayoutOverrides,
+  type PageDimensions,
+  type PageLayout,
+  type Placement,
+} from "./layout";
+import { rasterizeVectorInputs } from "./decoders";
+import { readImageDpi } from "./dpi";
+import { readExifOrientation } from "./exif";
+import { isProtected, toEncryptionOptions, type PdfSecurity } from "./security";
+import { drawOverlays, fitText, hasOverlays, type PageOverlays } from "./overlays";
+import {
+  addBookmarks,
+  applyMetadata,
+  insertCoverPages,
+  type BookmarkEntry,
+  type DocumentMetadata,
+} from "./documentInfo";
+import { hasEdits, renderEdits, withFilters, type ImageEdits } from "./imageEdits";
+import { isGrayscale, type ImageFilters } from "./filters";
+import {
+  estimateImageBytes,
+  exceedsPartSize,
+  startsNewPart,
+  type ConvertedPdf,
+  type SplitOptions,
+} from "./split";
+import { errorMessage } from "./utils";
+import { createOcrEngine, drawTextLayer, type OcrEngine, type OcrOptions, type OcrWord } from "./ocr";
+import { copyPdfPages, type PageCopy } from "./pdfMerge";
+import type { PdfPageRef } from "./pdfPages";
+
+export type ConversionOptions = PageLayout & {
+  // Encoder quality between 0 and 1; at 1, unchanged JPEG and PNG files are embedded without re-encoding
+  quality: number;
+  // Maximum print resolution, 0 or omitted keeps every source pixel
+  targetDpi?: number;
+  // Leave out images that fail to decode instead of aborting the whole PDF
+  skipFailed?: boolean;
+  // Several images per page instead of one; per-image overrides then only change the image size
+  grid?: GridLayout;
+  // Print every image as if scanned at this DPI, 0 or omitted uses the resolution in each file
+  dpiOverride?: number;
+  // Header, footer and watermark drawn over every page
+  overlays?: PageOverlays;
+  metadata?: DocumentMetadata;
+  // One outline entry per image, titled with its caption or name
+  bookmarks?: boolean;
+  // Group the outline under one heading per source folder
+  folderSections?: boolean;
+  // A first page with the title, date and a table of contents
+  coverPage?: boolean;
+  // Passwords and permissions; jsPDF implements the 40-bit RC4 standard security handler
+  security?: PdfSecurity;
+  // Recognise text and lay it invisibly over each image, so the PDF can be searched
+  ocr?: OcrOptions;
+  // Spread the images over several PDFs instead of one
+  split?: SplitOptions;
+  // Enhancements for every image, under any filters set on the image itself
+  filters?: ImageFilters;
+};
+
+// An image to convert plus what is known about how it should be printed
+export type SourceImage = {
+  blob: Blob;
+  // Pixels per inch of the blob, wins over everything else when set.
+  // Otherwise dpiOverride, then the file's own header, then the browser's 96 DPI apply.
+  dpi?: number;
+  edits?: ImageEdits;
+  // Page settings for this image that win over the conversion options
+  layout?: LayoutOverrides;
+  // File name for the {filename} template token
+  name?: string;
+  // Text printed under the image in grid layouts with captions, defaults to the name
+  caption?: string;
+  // Start a new PDF with this image when splitting at markers
+  splitBefore?: boolean;
+  // Folder the image was dropped from, for folder splits and outline sections
+  folder?: string;
+  // Set when the blob is a preview of a PDF page; the page itself is then copied into the output
+  pdfPage?: PdfPageRef;
+};
+
+export type ConversionInput = Blob | SourceImage;
+
+export type ItemStatus = "pending" | "processing" | "done" | "failed";
+
+export type ConversionCallbacks = {
+  onProgress?: (completed: number, total: number) => void;
+  onItemStatus?: (index: number, status: ItemStatus, error?: string) => void;
+  signal?: AbortSignal;
+  // Prepared pages are stored here under these keys, so a cancelled run can resume
+  cache?: PreparedImageCache;
+  cacheKeys?: string[];
+};
+
+export const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+  pageSize: "a4",
+  orientation: "portrait",
+  imageSize: "fit",
+  margin: 10,
+  quality: 1,
+  targetDpi: 0,
+  skipFailed: false,
+};
+
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super("PDF conversion was cancelled");
+    this.name = "ConversionCancelledError";
+  }
+}
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new ConversionCancelledError();
+};
+
+export type PreparedImage = {
+  page: PageDimensions;
+  placement: Placement;
+  // Unset for PDF pages, which are copied rather than embedded as images
+  compressed?: CompressedImage;
+  // Text found by OCR, kept with the page so a resumed run doesn't recognise it again
+  words?: OcrWord[];
+};
+
+export type PreparedImageCache = Map<string, PreparedImage>;
+
+// Options applied once every page is placed, which can't invalidate prepared pages
+const DOCUMENT_LEVEL_OPTIONS = {
+  overlays: undefined,
+  metadata: undefined,
+  bookmarks: undefined,
+  coverPage: undefined,
+  split: undefined,
+  folderSections: undefined,
+};
+
+// Prepared pages only stay valid while the options that shaped them are unchanged.
+// Security counts too, since PDF pages can only be copied into unencrypted output.
+const cacheKeyFor = (key: string, options: ConversionOptions) =>
+  `${key}:${JSON.stringify({ ...options, ...DOCUMENT_LEVEL_OPTIONS })}`;
+
+const toSourceImage = (input: ConversionInput): SourceImage =>
+  input instanceof Blob ? { blob: input } : input;
+
+// Page and cell of a grid slot, counted from the start of the document
+const gridCell = (options: ConversionOptions, grid: GridLayout, slot: number) => {
+  const page = getGridPageDimensions(options, grid);
+  const cells = computeGridCells(page, options.margin, grid);
+  return { page, cell: cells[slot % cells.length] };
+};
+
+// Page of an image and where it goes on it, in its grid slot when several share a page
+export const placeImage = (
+  options: ConversionOptions,
+  overrides: LayoutOverrides | undefined,
+  widthPx: number,
+  heightPx: number,
+  dpi: number = DEFAULT_DPI,
+  slot = 0
+): { page: PageDimensions; placement: Placement } => {
+  if (!options.grid) return layoutPage(resolveLayout(options, overrides), widthPx, heightPx, dpi);
+
+  // Every page of a grid shares the global page settings
+  const { page, cell } = gridCell(options, options.grid, slot);
+  return {
+    page,
+    placement: fitInBox(
+      widthPx,
+      heightPx,
+      cellImageBox(cell, options.grid),
+      overrides?.imageSize ?? options.imageSize,
+      dpi
+    ),
+  };
+};
+
+const prepareImage = async (
+  input: ConversionInput,
+  options: ConversionOptions,
+  slot = 0,
+  ocr?: OcrEngine
+): Promise<PreparedImage> => {
+  const source = toSourceImage(input);
+  const edits = withFilters(source.edits, options.filters);
+  const img = await decodeImage(source.blob);
+  try {
+    const exifOrientation = edits?.autoOrient === false
+      ? await readExifOrientation(source.blob)
+      : 1;
+    const edited = edits && hasEdits(edits)
+      ? renderEdits(img, edits, exifOrientation)
+      : img;
+    const dpi = source.dpi ?? (options.dpiOverride || await readImageDpi(source.blob) || DEFAULT_DPI);
+    const { page, placement } = placeImage(options, source.layout, edited.width, edited.height, dpi, slot);
+    // pdf-lib can't write encrypted files, so protected output gets the blob as an image instead
+    if (source.pdfPage && edited === img && !isProtected(options.security)) return { page, placement };
+    const maxWidthPx = options.targetDpi ? mmToPx(placement.width, options.targetDpi) : undefined;
+    const maxHeightPx = options.targetDpi ? mmToPx(placement.height, options.targetDpi) : undefined;
+    const size = constrainSize(edited.width, edited.height, maxWidthPx, maxHeightPx);
+    // jsPDF embeds JPEG and PNG files without re-encoding, but ignores their EXIF orientation
+    const unchanged = edited === img && options.quality >= 1 &&
+      size.width === edited.width && size.height === edited.height &&
+      await readExifOrientation(source.blob) === 1;
+    const compressed = (unchanged && await embedOriginal(source.blob, edited.width, edited.height)) ||
+      await compressImage(edited, {
+        quality: options.quality,
+        maxWidthPx,
+        maxHeightPx,
+        grayscale: edited !== img && isGrayscale(edits?.filters),
+      });
+    // Recognised on the full-resolution pixels, before compression can blur small print
+    const words = ocr ? await ocr.recognize(edited) : undefined;
+    return { page, placement, compressed, words };
+  } finally {
+    // Bitmaps hold decoded pixels outside the JS heap until closed
+    img.close();
+  }
+};
+
+// Caption centred in the strip under a grid cell, shortened to one line
+const drawCaption = (pdf: jsPDF, caption: string, cell: Placement) => {
+  pdf.setFontSize(8);
+  pdf.setTextColor(60);
+  pdf.text(fitText(pdf, caption, cell.width), cell.x + cell.width / 2, cell.y + cell.height - GRID_CAPTION_HEIGHT / 2, {
+    align: "center",
+    baseline: "middle",
+  });
+};
+
+// One output PDF while it is being filled
+type PdfPart = {
+  pdf: jsPDF;
+  // File names on each page, for the {filename} token
+  pageNames: string[][];
+  entries: BookmarkEntry[];
+  images: number;
+  // Estimated size so far, for size-limited splits
+  bytes: number;
+  // Folder of the first image, for folder splits
+  folder?: string;
+  // PDF pages to copy in once jsPDF is done
+  copies: PageCopy[];
+};
+
+// Cover page, outline, metadata and overlays go in once every page of a part is placed,
+// and the copied PDF pages last, underneath everything jsPDF drew
+const finishPart = async (
+  { pdf, pageNames, entries, folder, copies }: PdfPart,
+  options: ConversionOptions
+): Promise<ConvertedPdf> => {
+  if (options.coverPage) {
+    const inserted = insertCoverPages(pdf, options.metadata ?? {}, entries);
+    entries.forEach((entry) => (entry.page += inserted));
+    copies.forEach((copy) => (copy.page += inserted));
+    pageNames.unshift(...Array.from({ length: inserted }, () => []));
+  }
+  if (options.bookmarks || options.folderSections) addBookmarks(pdf, entries, options.bookmarks);
+  if (options.metadata) applyMetadata(pdf, options.metadata);
+  if (options.overlays && hasOverlays(options.overlays)) drawOverlays(pdf, options.overlays, pageNames);
+  const blob = copies.length
+    ? new Blob([await copyPdfPages(pdf.output("arraybuffer"), copies) as Uint8Array<ArrayBuffer>], { type: "application/pdf" })
+    : pdf.output("blob");
+  return { blob, folder: options.split?.mode === "folders" ? folder : undefined };
+};
+
+// Bytes jsPDF writes for an image. JPEG files go in as they are; PNG files are deflated
+// again, so they are measured in a scratch document.
+const embeddedBytes = ({ data, format, bytes }: CompressedImage): number => {
+  if (format !== "png") return bytes;
+  const pdf = new jsPDF();
+  const empty = pdf.output("arraybuffer").byteLength;
+  pdf.addImage(data, "PNG", 0, 0, 1, 1, undefined, PNG_COMPRESSION);
+  return pdf.output("arraybuffer").byteLength - empty;
+};
+
+// A copied PDF page adds about its share of the PDF it comes from
+const pdfPageBytes = (inputs: ConversionInput[]) => {
+  const pages = new Map<Blob, number>();
+  inputs.forEach((input) => {
+    const file = toSourceImage(input).pdfPage?.file;
+    if (file) pages.set(file, (pages.get(file) ?? 0) + 1);
+  });
+  return ({ file }: PdfPageRef) => file.size / (pages.get(file) ?? 1);
+};
+
+// Build PDFs with one page per input image, or several per page in a grid.
+// Returns a single PDF unless options.split spreads the images over several.
+export const convertToPdfs = async (
+  sources: ConversionInput[],
+  options: ConversionOptions,
+  { onProgress, onItemStatus, signal, cache, cacheKeys }: ConversionCallbacks = {}
+): Promise<ConvertedPdf[]> => {
+  if (!sources.length) throw new Error("At least one image is required");
+
+  // Workers receive inputs that were already rasterized on the page
+  const inputs = typeof document === "undefined"
+    ? sources
+    : await rasterizeVectorInputs(sources, options);
+
+  const copiedBytes = pdfPageBytes(inputs);
+  const pdfs: ConvertedPdf[] = [];
+  // Created with its first page, since every page can have its own size
+  let part: PdfPart | null = null;
+  // Grid slots filled in the current part; failed images don't leave a gap
+  let placed = 0;
+  const perPage = imagesPerPage(options.grid);
+  // Started with the first image that needs it, since loading the language data takes a while
+  let ocr: OcrEngine | null = null;
+
+  // In a grid the placement depends on the cell, so the slot is part of the key
+  const keyFor = (index: number, slot: number) =>
+    cache && cacheKeys?.[index]
+      ? cacheKeyFor(options.grid ? `${cacheKeys[index]}@${slot}` : cacheKeys[index], options)
+      : null;
+
+  const prepareAt = async (index: number, slot: number): Promise<PreparedImage> => {
+    const key = keyFor(index, slot);
+    const cached = key ? cache?.get(key) : undefined;
+    if (cached) return cached;
+    const prepared = await prepareImage(inputs[index], options, slot, ocr ?? undefined);
+    if (key) cache?.set(key, prepared);
+    return prepared;
+  };
+
+  try {
+    for (let i = 0; i < inputs.length; i++) {
+      throwIfCancelled(signal);
+      onItemStatus?.(i, "processing");
+
+      const source = toSourceImage(inputs[i]);
+      if (part && startsNewPart(options.split, part, source)) {
+        pdfs.push(await finishPart(part, options));
+        part = null;
+        placed = 0;
+      }
+      let slot = placed % perPage;
+
+      // A missing OCR engine would fail every image, so it aborts the run rather than being skipped
+      const key = keyFor(i, slot);
+      if (options.ocr && !ocr && !(key && cache?.has(key))) ocr = await createOcrEngine(options.ocr);
+
+      let prepared: PreparedImage;
+      let bytes = 0;
+      try {
+        prepared = await prepareAt(i, slot);
+        // Deflating PNGs twice only pays off when the parts have a size limit
+        if (options.split?.mode === "size") {
+          bytes = prepared.compressed
+            ? estimateImageBytes(embeddedBytes(prepared.compressed), prepared.words?.length)
+            : copiedBytes(source.pdfPage!);
+        }
+        // The size is only known once the image is encoded
+        if (part && exceedsPartSize(options.split, part.bytes, bytes)) {
+          pdfs.push(await finishPart(part, options));
+          part = null;
+          placed = 0;
+          // The image moves to the first cell of the new part
+          if (slot !== 0) prepared = await prepareAt(i, (slot = 0));
+        }
+      } catch (error) {
+        onItemStatus?.(i, "failed", errorMessage(error));
+        if (!options.skipFailed) throw error;
+        onProgress?.(i + 1, inputs.length);
+        continue;
+      }
+      throwIfCancelled(signal);
+
+      const { page, placement, compressed, words } = prepared;
+      const format = [page.width, page.height];
+      const orientation = page.width > page.height ? "landscape" : "portrait";
+      if (!part) {
+        part = {
+          pdf: new jsPDF({ unit: "mm", format, orientation, encryption: toEncryptionOptions(options.security) }),
+          pageNames: [[]],
+          entries: [],
+          images: 0,
+          bytes: 0,
+          folder: source.folder,
+          copies: [],
+        };
+      } else if (slot === 0) {
+        part.pdf.addPage(format, orientation);
+        part.pageNames.push([]);
+      }
+      const { pdf, pageNames } = part;
+      if (source.name) pageNames[pageNames.length - 1].push(source.name);
+      part.entries.push({
+        title: source.caption || source.name || `Image ${i + 1}`,
+        page: pageNames.length,
+        section: options.folderSections ? source.folder || "Other images" : undefined,
+      });
+
+      const { grid } = options;
+      const cell = grid ? gridCell(options, grid, slot).cell : undefined;
+      // "fill" overflows the cell, so keep it from covering its neighbours
+      const clip = grid && cell ? cellImageBox(cell, grid) : undefined;
+      if (!compressed) {
+        part.copies.push({ source: source.pdfPage!, page: pageNames.length, placement, clip });
+      } else {
+        if (clip) {
+          pdf.saveGraphicsState();
+          pdf.rect(clip.x, clip.y, clip.width, clip.height, null);
+          pdf.clip();
+          pdf.discardPath();
+        }
+        pdf.addImage(
+          compressed.data,
+          pdfImageType(compressed.format),
+          placement.x,
+          placement.y,
+          placement.width,
+          placement.height,
+          undefined,
+          PNG_COMPRESSION
+        );
+        if (words?.length) drawTextLayer(pdf, words, placement);
+        if (clip) pdf.restoreGraphicsState();
+      }
+      if (grid && cell) {
+        const caption = source.caption ?? source.name;
+        if (grid.captions && caption) drawCaption(pdf, caption, cell);
+      }
+      placed++;
+      part.images++;
+      part.bytes += bytes;
+
+      onItemStatus?.(i, "done");
+      onProgress?.(i + 1, inputs.length);
+    }
+  } finally {
+    await ocr?.terminate();
+  }
+
+  if (part) pdfs.push(await finishPart(part, options));
+  if (!pdfs.length) throw new Error("None of the images could be converted");
+  return pdfs;
+};
+
+// Build a single PDF with one page per input image, or several per page in a grid
+export const convertToPdf = async (
+  sources: ConversionInput[],
+  options: ConversionOptions,
+  callbacks: ConversionCallbacks = {}
+): Promise<Blob> => {
+  const [pdf] = await convertToPdfs(sources, { ...options, split: undefined }, callbacks);
+  return pdf.blob;
+};
+
+// Images prepared to estimate the PDF size
+export const ESTIMATE_SAMPLES = 3;
+
+// Estimate the PDF size by preparing a few sample images the way the converter embeds them
+export const estimatePdfSize = async (
+  sources: ConversionInput[],
+  options: ConversionOptions,
+  { signal }: Pick<ConversionCallbacks, "signal"> = {},
+  // The first few sources ready to prepare, for callers that rasterized them where there is a DOM
+  samples?: ConversionInput[]
+): Promise<number> => {
+  samples ??= await rasterizeVectorInputs(sources.slice(0, ESTIMATE_SAMPLES), options);
+  const copiedBytes = pdfPageBytes(sources);
+  // Pages of imported PDFs count as their share of the file, since their preview is only a thumbnail
+  const inputSize = (input: ConversionInput) => {
+    const { blob, pdfPage } = toSourceImage(input);
+    return pdfPage ? copiedBytes(pdfPage) : blob.size;
+  };
+  let inputBytes = 0;
+  let outputBytes = 0;
+
+  for (const [slot, sample] of samples.entries()) {
+    throwIfCancelled(signal);
+    const { compressed } = await prepareImage(sample, options, slot);
+    const size = inputSize(sources[slot]);
+    inputBytes += size;
+    outputBytes += compressed ? embeddedBytes(compressed) : size;
+  }
+
+  const totalInput = sources.reduce((acc, input) => acc + inputSize(input), 0);
+  return inputBytes ? Math.round(totalInput * (outputBytes / inputBytes)) : 0;
+};
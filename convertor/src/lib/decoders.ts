@@ -0,0 +1,387 @@
+// Turns dropped files into images the browser can draw, one entry per output page
+import type { ConversionInput, ConversionOptions, SourceImage } from "./convertToPdf";
+import {
+  layoutPage,
+  mmToPx,
+  resolveLayout,
+  DEFAULT_DPI,
+  type LayoutOverrides,
+} from "./layout";
+import { hasEdits, withFilters } from "./imageEdits";
+import { canCopyPages } from "./pdfMerge";
+import { openPdf, renderPdfPage, type PdfPageRef } from "./pdfPages";
+import { isProtected } from "./security";
+import type { FolderFile } from "./folders";
+import { baseName, errorMessage } from "./utils";
+import type { IFD } from "utif2";
+
+export type InputFormat =
+  | "jpeg"
+  | "png"
+  | "webp"
+  | "gif"
+  | "bmp"
+  | "svg"
+  | "tiff"
+  | "heic"
+  | "pdf";
+
+export type ImportedImage = {
+  file: File;
+  format: InputFormat;
+  // Fully composited frames of an animated image, only set when there is more than one
+  frames?: Blob[];
+  // Resolution of the original file when decoding dropped it from the page
+  dpi?: number;
+  // Page of the PDF this image was rendered from
+  pdfPage?: PdfPageRef;
+  // Folder the file was dropped or picked from, relative to the drop
+  folder?: string;
+};
+
+type DecodedPage = {
+  file: File;
+  dpi?: number;
+  pdfPage?: PdfPageRef;
+};
+
+export type RejectedFile = {
+  name: string;
+  reason: string;
+};
+
+const formatsByMime: Record<string, InputFormat> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/x-ms-bmp": "bmp",
+  "image/svg+xml": "svg",
+  "image/tiff": "tiff",
+  "image/heic": "heic",
+  "image/heif": "heic",
+  "image/heic-sequence": "heic",
+  "image/heif-sequence": "heic",
+  "application/pdf": "pdf",
+};
+
+// Browsers often leave the MIME type empty for HEIC and TIFF, so fall back to the extension
+const formatsByExtension: Record<string, InputFormat> = {
+  jpg: "jpeg",
+  jpeg: "jpeg",
+  png: "png",
+  webp: "webp",
+  gif: "gif",
+  bmp: "bmp",
+  svg: "svg",
+  tif: "tiff",
+  tiff: "tiff",
+  heic: "heic",
+  heif: "heic",
+  pdf: "pdf",
+};
+
+// Value for the file input's accept attribute
+export const ACCEPTED_FILE_TYPES = [
+  ...Object.keys(formatsByMime),
+  ...Object.keys(formatsByExtension).map((ext) => `.${ext}`),
+].join(", ");
+
+// Resolution used for vector images when no maximum resolution is set
+const VECTOR_DPI = 300;
+// PDF pages are copied into the output, so their preview only has to fill a thumbnail
+const PREVIEW_DPI = 96;
+
+export const detectFormat = (file: File): InputFormat | null => {
+  const byMime = formatsByMime[file.type.toLowerCase()];
+  if (byMime) return byMime;
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return formatsByExtension[extension] ?? null;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The image could not be decoded"));
+    img.src = src;
+  });
+
+const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Canvas encoding failed"))),
+      "image/png"
+    );
+  });
+
+const decodeHeic = async (file: File): Promise<DecodedPage[]> => {
+  // The HEIC decoder is large, so only load it when an iPhone photo shows up
+  const { heicTo } = await import("heic-to");
+  const jpeg = await heicTo({ blob: file, type: "image/jpeg", quality: 0.92 });
+  return [{
+    file: new File([jpeg], `${baseName(file.name)}.jpg`, {
+      type: "image/jpeg",
+      lastModified: file.lastModified,
+    }),
+  }];
+};
+
+// XResolution of a TIFF frame in pixels per inch; utif2 keeps rationals as [numerator, denominator]
+const tiffDpi = (frame: IFD): number | undefined => {
+  const [rational] = (frame.t282 ?? []) as unknown as [number, number][];
+  const resolution = rational?.[1] ? rational[0] / rational[1] : 0;
+  if (!resolution) return undefined;
+  // ResolutionUnit 3 is centimetres, 1 has no absolute unit
+  const unit = (frame.t296 as number[] | undefined)?.[0] ?? 2;
+  if (unit === 3) return resolution * 2.54;
+  return unit === 2 ? resolution : undefined;
+};
+
+// Every TIFF frame (IFD) becomes its own lossless PNG page
+const decodeTiff = async (file: File): Promise<DecodedPage[]> => {
+  const UTIF = await import("utif2");
+  const buffer = await file.arrayBuffer();
+  const frames = UTIF.decode(buffer);
+  if (!frames.length) throw new Error("The TIFF file contains no images");
+
+  const pages: DecodedPage[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    UTIF.decodeImage(buffer, frame);
+    const rgba = UTIF.toRGBA8(frame);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+    ctx.putImageData(
+      new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.length), frame.width, frame.height),
+      0,
+      0
+    );
+
+    const name = frames.length > 1
+      ? `${baseName(file.name)} (page ${i + 1}).png`
+      : `${baseName(file.name)}.png`;
+    pages.push({
+      file: new File([await canvasToPngBlob(canvas)], name, {
+        type: "image/png",
+        lastModified: file.lastModified,
+      }),
+      dpi: tiffDpi(frame),
+    });
+  }
+  return pages;
+};
+
+// Composite every GIF frame onto the logical screen, honouring disposal methods
+export const decodeGifFrames = async (file: Blob): Promise<Blob[]> => {
+  const { parseGIF, decompressFrames } = await import("gifuct-js");
+  const gif = parseGIF(await file.arrayBuffer());
+  const frames = decompressFrames(gif, true);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = gif.lsd.width;
+  canvas.height = gif.lsd.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  // Frame patches have their own size, so they are staged on a scratch canvas
+  const patchCanvas = document.createElement("canvas");
+  const patchCtx = patchCanvas.getContext("2d");
+  if (!patchCtx) throw new Error("Canvas 2D context is not available");
+
+  const blobs: Blob[] = [];
+  for (const frame of frames) {
+    const { width, height, top, left } = frame.dims;
+    const previous = frame.disposalType === 3
+      ? ctx.getImageData(0, 0, canvas.width, canvas.height)
+      : null;
+
+    patchCanvas.width = width;
+    patchCanvas.height = height;
+    patchCtx.putImageData(new ImageData(frame.patch, width, height), 0, 0);
+    ctx.drawImage(patchCanvas, left, top);
+
+    blobs.push(await canvasToPngBlob(canvas));
+
+    // 2 restores the background, 3 restores what was there before this frame
+    if (frame.disposalType === 2) ctx.clearRect(left, top, width, height);
+    if (previous) ctx.putImageData(previous, 0, 0);
+  }
+  return blobs;
+};
+
+// Every PDF page gets a PNG preview with its printed size, for thumbnails and edits;
+// the converter copies the page itself unless it has to be drawn as an image
+const decodePdf = async (file: File): Promise<DecodedPage[]> => {
+  const pdf = await openPdf(file);
+  try {
+    const pages: DecodedPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const blob = await renderPdfPage(pdf, pageNumber, { dpi: PREVIEW_DPI, format: "png" });
+      pages.push({
+        file: new File([blob], `${baseName(file.name)} (page ${pageNumber}).png`, {
+          type: "image/png",
+          lastModified: file.lastModified,
+        }),
+        dpi: PREVIEW_DPI,
+        pdfPage: { file, page: pageNumber },
+      });
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Check that a natively supported file really decodes before accepting it
+const verifyImage = async (file: File): Promise<DecodedPage[]> => {
+  const url = URL.createObjectURL(file);
+  try {
+    await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return [{ file }];
+};
+
+const decoders: Record<InputFormat, (file: File) => Promise<DecodedPage[]>> = {
+  jpeg: verifyImage,
+  png: verifyImage,
+  webp: verifyImage,
+  gif: verifyImage,
+  bmp: verifyImage,
+  svg: verifyImage,
+  tiff: decodeTiff,
+  heic: decodeHeic,
+  pdf: decodePdf,
+};
+
+// Decode a batch of files, collecting the ones that can't be used with a reason
+export const importFiles = async (
+  files: (File | FolderFile)[]
+): Promise<{ images: ImportedImage[]; rejected: RejectedFile[] }> => {
+  const images: ImportedImage[] = [];
+  const rejected: RejectedFile[] = [];
+
+  for (const item of files) {
+    const { file, folder } = item instanceof File ? { file: item, folder: undefined } : item;
+    const format = detectFormat(file);
+    if (!format) {
+      rejected.push({
+        name: folder ? `${folder}/${file.name}` : file.name,
+        reason: `Unsupported file type${file.type ? ` (${file.type})` : ""}`,
+      });
+      continue;
+    }
+
+    try {
+      const pages = await decoders[format](file);
+      // A broken animation still leaves the first frame usable
+      const frames = format === "gif" ? await decodeGifFrames(file).catch(() => []) : [];
+      images.push(...pages.map((page) => ({
+        file: page.file,
+        format,
+        frames: frames.length > 1 ? frames : undefined,
+        dpi: page.dpi,
+        pdfPage: page.pdfPage,
+        folder: folder || undefined,
+      })));
+    } catch (error) {
+      rejected.push({
+        name: folder ? `${folder}/${file.name}` : file.name,
+        reason: `Could not read ${format.toUpperCase()} file: ${errorMessage(error)}`,
+      });
+    }
+  }
+
+  return { images, rejected };
+};
+
+export const isVectorImage = (blob: Blob) => blob.type === "image/svg+xml";
+
+// Render an SVG at the resolution it will be printed with
+export const rasterizeSvg = async (
+  blob: Blob,
+  options: ConversionOptions,
+  overrides?: LayoutOverrides
+): Promise<SourceImage> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    // SVGs without width/height report no intrinsic size in some browsers
+    const widthPx = img.naturalWidth || 300;
+    const heightPx = img.naturalHeight || 150;
+
+    // A DPI override applies to the SVG's CSS pixels like to any other pixels
+    const baseDpi = options.dpiOverride || DEFAULT_DPI;
+    const { placement } = layoutPage(resolveLayout(options, overrides), widthPx, heightPx, baseDpi);
+    const dpi = options.targetDpi || VECTOR_DPI;
+    const rasterWidth = mmToPx(placement.width, dpi);
+    const rasterHeight = mmToPx(placement.height, dpi);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = rasterWidth;
+    canvas.height = rasterHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+    ctx.drawImage(img, 0, 0, rasterWidth, rasterHeight);
+
+    return {
+      blob: await canvasToPngBlob(canvas),
+      // Keeps the physical size of the SVG's CSS pixels despite the extra raster pixels
+      dpi: (rasterWidth / widthPx) * baseDpi,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// PDF pages that can't be copied as they are: edited pages, protected output (pdf-lib
+// can't encrypt) and files pdf-lib can't read
+const mustRenderPage = async ({ edits, pdfPage }: SourceImage, options: ConversionOptions) =>
+  !!pdfPage && (
+    hasEdits(withFilters(edits, options.filters)) ||
+    isProtected(options.security) ||
+    !(await canCopyPages(pdfPage.file))
+  );
+
+// SVG and PDF pages can only be rendered with the DOM, so rasterize them before conversion
+export const rasterizeVectorInputs = async (
+  inputs: ConversionInput[],
+  options: ConversionOptions
+): Promise<ConversionInput[]> => {
+  const rasterized: ConversionInput[] = [];
+  // Opened once however many of their pages are rendered
+  const pdfs = new Map<Blob, ReturnType<typeof openPdf>>();
+  try {
+    for (const input of inputs) {
+      const blob = input instanceof Blob ? input : input.blob;
+      // Keep per-image settings such as edits on the rasterized copy
+      const extras: Partial<SourceImage> = input instanceof Blob ? {} : input;
+      try {
+        if (isVectorImage(blob)) {
+          rasterized.push({ ...extras, ...(await rasterizeSvg(blob, options, extras.layout)) });
+        } else if (!(input instanceof Blob) && input.pdfPage && await mustRenderPage(input, options)) {
+          const { file, page } = input.pdfPage;
+          if (!pdfs.has(file)) pdfs.set(file, openPdf(file));
+          const dpi = options.targetDpi || VECTOR_DPI;
+          const rendered = await renderPdfPage(await pdfs.get(file)!, page, { dpi, format: "png" });
+          rasterized.push({ ...input, blob: rendered, dpi, pdfPage: undefined });
+        } else {
+          rasterized.push(input);
+        }
+      } catch {
+        // Leave it in place so the converter reports the failure for this page
+        rasterized.push(input);
+      }
+    }
+  } finally {
+    for (const pdf of pdfs.values()) await pdf.then((doc) => doc.destroy(), () => undefined);
+  }
+  return rasterized;
+};
@@ -0,0 +1,111 @@
+// Document properties, outline and the optional cover page with a table of contents
+import type { jsPDF, OutlineItem } from "jspdf";
+import { fitText } from "./overlays";
+
+export type DocumentMetadata = {
+  title?: string;
+  author?: string;
+  subject?: string;
+  // Comma separated
+  keywords?: string;
+};
+
+// An outline entry pointing at a 1-based page number
+export type BookmarkEntry = {
+  title: string;
+  page: number;
+  // Heading the entry is nested under, such as the folder the image came from
+  section?: string;
+};
+
+const COVER_MARGIN = 20;
+const TOC_LINE_HEIGHT = 7;
+// Room taken by the title block on the first cover page
+const COVER_HEADER_HEIGHT = 70;
+
+export const applyMetadata = (pdf: jsPDF, metadata: DocumentMetadata) => {
+  // Empty fields are left out rather than written as blank strings
+  const properties = Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value?.trim())
+  ) as DocumentMetadata;
+  pdf.setProperties(properties);
+};
+
+// One outline item per entry, under a heading each time the section changes.
+// Without includeEntries only the section headings are added.
+export const addBookmarks = (pdf: jsPDF, entries: BookmarkEntry[], includeEntries = true) => {
+  let section: string | undefined;
+  let parent: OutlineItem | null = null;
+  for (const entry of entries) {
+    if (entry.section !== undefined && entry.section !== section) {
+      section = entry.section;
+      parent = pdf.outline.add(null, section, { pageNumber: entry.page });
+    }
+    if (includeEntries) pdf.outline.add(parent, entry.title, { pageNumber: entry.page });
+  }
+};
+
+// Pages needed for a table of contents with this many entries
+const coverPageCount = (pageHeight: number, entries: number) => {
+  const linesFrom = (top: number) => Math.floor((pageHeight - COVER_MARGIN - top) / TOC_LINE_HEIGHT) + 1;
+  const onFirst = linesFrom(COVER_MARGIN + COVER_HEADER_HEIGHT);
+  const perPage = linesFrom(COVER_MARGIN);
+  return entries <= onFirst ? 1 : 1 + Math.ceil((entries - onFirst) / perPage);
+};
+
+// Insert a cover with the title, date and a linked table of contents in front of the pages.
+// Returns how many pages were inserted; entries must point at pages before the insert.
+export const insertCoverPages = (
+  pdf: jsPDF,
+  metadata: DocumentMetadata,
+  entries: BookmarkEntry[],
+  date: Date = new Date()
+): number => {
+  pdf.setPage(1);
+  const width = pdf.internal.pageSize.getWidth();
+  const height = pdf.internal.pageSize.getHeight();
+  const count = coverPageCount(height, entries.length);
+  for (let i = 0; i < count; i++) pdf.insertPage(1);
+
+  pdf.setPage(1);
+  pdf.setTextColor(20);
+  pdf.setFontSize(26);
+  pdf.text(fitText(pdf, metadata.title?.trim() || "Untitled", width - COVER_MARGIN * 2), COVER_MARGIN, COVER_MARGIN + 10);
+  pdf.setFontSize(12);
+  pdf.setTextColor(90);
+  const byline = [metadata.author?.trim(), date.toLocaleDateString()].filter(Boolean).join(" · ");
+  pdf.text(byline, COVER_MARGIN, COVER_MARGIN + 22);
+  if (metadata.subject?.trim()) {
+    pdf.text(fitText(pdf, metadata.subject.trim(), width - COVER_MARGIN * 2), COVER_MARGIN, COVER_MARGIN + 30);
+  }
+
+  pdf.setFontSize(14);
+  pdf.setTextColor(20);
+  pdf.text("Contents", COVER_MARGIN, COVER_MARGIN + COVER_HEADER_HEIGHT - TOC_LINE_HEIGHT);
+
+  pdf.setFontSize(10);
+  let y = COVER_MARGIN + COVER_HEADER_HEIGHT;
+  let coverPage = 1;
+  for (const entry of entries) {
+    if (y > height - COVER_MARGIN) {
+      coverPage++;
+      pdf.setPage(coverPage);
+      y = COVER_MARGIN;
+    }
+    const page = entry.page + count;
+    const number = String(page);
+    const numberWidth = pdf.getTextWidth(number);
+    pdf.setTextColor(40);
+    pdf.textWithLink(
+      fitText(pdf, entry.title, width - COVER_MARGIN * 2 - numberWidth - 8),
+      COVER_MARGIN,
+      y,
+      { pageNumber: page }
+    );
+    pdf.setTextColor(120);
+    pdf.text(number, width - COVER_MARGIN, y, { align: "right" });
+    y += TOC_LINE_HEIGHT;
+  }
+
+  return count;
+};
@@ -0,0 +1,252 @@
+// Finding a photographed page and flattening it into a rectangle, all on canvas
+import { createPixelCanvas } from "./canvas";
+import type { DrawableImage } from "./imageEdits";
+
+export type Point = {
+  x: number;
+  y: number;
+};
+
+// Page corners as fractions of the image: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Longest side the page is searched for at, detection only needs the outline
+const DETECTION_SIZE = 400;
+// Smaller shapes are more likely text blocks or shadows than the page
+const MIN_PAGE_AREA = 0.2;
+// A shape covering nearly everything means the photo is already just the page
+const MAX_PAGE_AREA = 0.97;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Shoelace area, positive for the clockwise corner order of a Quad in image coordinates
+const quadArea = (quad: Quad) =>
+  quad.reduce((sum, p, i) => {
+    const next = quad[(i + 1) % 4];
+    return sum + (p.x * next.y - next.x * p.y);
+  }, 0) / 2;
+
+// Every turn bends the same way, so the warp can't fold the page over itself
+const isConvex = (quad: Quad) =>
+  quad.every((p, i) => {
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    return (b.x - p.x) * (c.y - b.y) - (b.y - p.y) * (c.x - b.x) > 0;
+  });
+
+// Corners in Quad order from four points in any order
+export const orderCorners = (points: Point[]): Quad => {
+  const sum = (p: Point) => p.x + p.y;
+  const diff = (p: Point) => p.x - p.y;
+  const pick = (score: (p: Point) => number) =>
+    points.reduce((best, p) => (score(p) > score(best) ? p : best));
+  return [
+    pick((p) => -sum(p)),
+    pick(diff),
+    pick(sum),
+    pick((p) => -diff(p)),
+  ];
+};
+
+// Move page corners along with a quarter turn clockwise of the image.
+// The page turns too, so the corner that was bottom-left becomes top-left.
+export const rotateQuadClockwise = (quad: Quad): Quad => {
+  const [tl, tr, br, bl] = quad.map((p) => ({ x: 1 - p.y, y: p.x }));
+  return [bl, tl, tr, br];
+};
+
+export const flipQuad = (quad: Quad): Quad => {
+  const [tl, tr, br, bl] = quad.map((p) => ({ x: 1 - p.x, y: p.y }));
+  return [tr, tl, bl, br];
+};
+
+// Pixel size of the flattened page, keeping the longer of each pair of opposite edges
+export const warpedSize = (quad: Quad, width: number, height: number) => {
+  const [tl, tr, br, bl] = quad.map((p) => ({ x: p.x * width, y: p.y * height }));
+  return {
+    width: Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br)))),
+    height: Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br)))),
+  };
+};
+
+// Otsu's method: the grey level that best separates page from background
+const otsuThreshold = (gray: Uint8ClampedArray) => {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray) histogram[value]++;
+
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumBackground = 0;
+  let countBackground = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    countBackground += histogram[t];
+    if (!countBackground) continue;
+    const countForeground = total - countBackground;
+    if (!countForeground) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / countBackground;
+    const meanForeground = (sumAll - sumBackground) / countForeground;
+    const between = countBackground * countForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// Separable box blur, so paper texture and printed text don't break the page into pieces
+const boxBlur = (gray: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const pass = (src: Uint8ClampedArray, horizontal: boolean) => {
+    const out = new Uint8ClampedArray(src.length);
+    const [outer, inner] = horizontal ? [height, width] : [width, height];
+    for (let o = 0; o < outer; o++) {
+      for (let i = 0; i < inner; i++) {
+        let sum = 0;
+        let count = 0;
+        for (let k = Math.max(0, i - radius); k <= Math.min(inner - 1, i + radius); k++) {
+          sum += src[horizontal ? o * width + k : k * width + o];
+          count++;
+        }
+        out[horizontal ? o * width + i : i * width + o] = sum / count;
+      }
+    }
+    return out;
+  };
+  return pass(pass(gray, true), false);
+};
+
+// Pixel indexes of the largest connected region of set pixels
+const largestRegion = (mask: Uint8Array, width: number, height: number): number[] => {
+  const seen = new Uint8Array(mask.length);
+  let largest: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const region: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < (height - 1) * width ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+// Corners of the page in a photo of paper on a darker surface, or null when no page stands out
+export const detectPageCorners = (source: DrawableImage): Quad | null => {
+  const scale = Math.min(1, DETECTION_SIZE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const { ctx } = createPixelCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const gray = boxBlur(luminance, width, height, 2);
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) mask[i] = gray[i] > threshold ? 1 : 0;
+
+  const region = largestRegion(mask, width, height);
+  if (region.length < MIN_PAGE_AREA * width * height) return null;
+
+  // The page's corners are the region's extremes along both diagonals
+  const points = region.map((index) => ({ x: index % width, y: Math.floor(index / width) }));
+  const corners = orderCorners(points);
+  const quad = corners.map((p) => ({ x: (p.x + 0.5) / width, y: (p.y + 0.5) / height })) as Quad;
+
+  const area = quadArea(quad);
+  if (area < MIN_PAGE_AREA || area > MAX_PAGE_AREA || !isConvex(quad)) return null;
+  return quad;
+};
+
+// Coefficients mapping the unit square onto the quad, after Heckbert's square-to-quad projection
+const squareToQuad = ([p0, p1, p2, p3]: Quad) => {
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det ? (dx3 * dy2 - dx2 * dy3) / det : 0;
+  const h = det ? (dx1 * dy3 - dx3 * dy1) / det : 0;
+  return {
+    a: p1.x - p0.x + g * p1.x,
+    b: p3.x - p0.x + h * p3.x,
+    c: p0.x,
+    d: p1.y - p0.y + g * p1.y,
+    e: p3.y - p0.y + h * p3.y,
+    f: p0.y,
+    g,
+    h,
+  };
+};
+
+// Flatten the page inside the quad into an upright rectangle, which also crops away the surface around it
+export const warpPerspective = (source: DrawableImage, quad: Quad): OffscreenCanvas => {
+  const { width: srcW, height: srcH } = source;
+  const { ctx: srcCtx } = createPixelCanvas(srcW, srcH);
+  srcCtx.drawImage(source, 0, 0);
+  const src = srcCtx.getImageData(0, 0, srcW, srcH).data;
+
+  const { width, height } = warpedSize(quad, srcW, srcH);
+  const { canvas, ctx } = createPixelCanvas(width, height);
+  const output = ctx.createImageData(width, height);
+  const out = output.data;
+  const { a, b, c, d, e, f, g, h } = squareToQuad(
+    quad.map((p) => ({ x: p.x * srcW - 0.5, y: p.y * srcH - 0.5 })) as Quad
+  );
+
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width;
+      const w = g * u + h * v + 1;
+      const sx = Math.min(srcW - 1, Math.max(0, (a * u + b * v + c) / w));
+      const sy = Math.min(srcH - 1, Math.max(0, (d * u + e * v + f) / w));
+
+      // Bilinear sampling keeps straight text edges smooth
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(srcW - 1, x0 + 1);
+      const y1 = Math.min(srcH - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * srcW + x0) * 4;
+      const i10 = (y0 * srcW + x1) * 4;
+      const i01 = (y1 * srcW + x0) * 4;
+      const i11 = (y1 * srcW + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        const top = src[i00 + ch] + (src[i10 + ch] - src[i00 + ch]) * fx;
+        const bottom = src[i01 + ch] + (src[i11 + ch] - src[i01 + ch]) * fx;
+        out[o + ch] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,70 @@
+// Print resolution stored in JPEG and PNG headers
+import { readExifDpi, HEADER_BYTES } from "./exif";
+import { decodeImage } from "./imageCompression";
+
+// Values outside this range are placeholders or corrupt headers rather than real resolutions
+const MIN_DPI = 10;
+const MAX_DPI = 10000;
+
+const INCHES_PER_METRE = 39.3701;
+
+const plausible = (dpi: number | null): number | null =>
+  dpi && dpi >= MIN_DPI && dpi <= MAX_DPI ? Math.round(dpi * 100) / 100 : null;
+
+// Density from the JFIF APP0 segment, null when it only states an aspect ratio
+const readJfifDpi = (view: DataView): number | null => {
+  if (view.byteLength < 18 || view.getUint16(0) !== 0xffd8) return null;
+  const offset = 2;
+  // "JFIF\0" identifier
+  if (view.getUint16(offset) !== 0xffe0 || view.getUint32(offset + 4) !== 0x4a464946) return null;
+
+  const units = view.getUint8(offset + 11);
+  const density = view.getUint16(offset + 12);
+  // 1 is dots per inch, 2 is dots per centimetre, 0 has no physical meaning
+  if (units === 1) return density;
+  if (units === 2) return density * 2.54;
+  return null;
+};
+
+// pHYs chunk of a PNG, which has to come before the image data
+const readPngDpi = (view: DataView): number | null => {
+  if (view.byteLength < 8 || view.getUint32(0) !== 0x89504e47) return null;
+
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = view.getUint32(offset + 4);
+    // "pHYs"
+    if (type === 0x70485973 && offset + 17 <= view.byteLength) {
+      const pixelsPerUnit = view.getUint32(offset + 8);
+      // Unit 1 is the metre; 0 only gives the pixel aspect ratio
+      return view.getUint8(offset + 16) === 1 ? pixelsPerUnit / INCHES_PER_METRE : null;
+    }
+    // "IDAT" means the metadata chunks are over
+    if (type === 0x49444154) return null;
+    offset += 12 + length;
+  }
+  return null;
+};
+
+// Resolution the image was saved with, or null when the file doesn't say
+export const readImageDpi = async (blob: Blob): Promise<number | null> => {
+  const view = new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+  if (view.byteLength >= 8 && view.getUint32(0) === 0x89504e47) return plausible(readPngDpi(view));
+  // Scanners write JFIF density; EXIF is checked when it is missing
+  return plausible(readJfifDpi(view)) ?? plausible(readExifDpi(view));
+};
+
+export type ImageInfo = {
+  // Upright pixel size, after EXIF orientation
+  width: number;
+  height: number;
+  dpi: number | null;
+};
+
+export const readImageInfo = async (blob: Blob): Promise<ImageInfo> => {
+  const [img, dpi] = await Promise.all([decodeImage(blob), readImageDpi(blob)]);
+  const info = { width: img.width, height: img.height, dpi };
+  img.close();
+  return info;
+};
@@ -0,0 +1,86 @@
+// Minimal JPEG EXIF reader for the tags the converter cares about
+
+// EXIF orientation, 1 is upright and 2-8 are flipped and/or rotated
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const ORIENTATION_TAG = 0x0112;
+const X_RESOLUTION_TAG = 0x011a;
+const RESOLUTION_UNIT_TAG = 0x0128;
+
+// EXIF lives in the first APP1 segment, which is limited to 64 KB
+export const HEADER_BYTES = 64 * 1024;
+
+// Find the TIFF structure inside a JPEG's Exif APP1 segment
+const findExifTiff = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    const length = view.getUint16(offset + 2);
+
+    // "Exif\0\0" identifier followed by the TIFF header
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10;
+    }
+    // Start of scan means the metadata segments are over
+    if (marker === 0xffda) return null;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// Offset of a tag's 12-byte IFD0 entry, or null when it is missing
+const findIfd0Entry = (view: DataView, tiff: number, tag: number) => {
+  if (tiff + 8 > view.byteLength) return null;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > view.byteLength) return null;
+
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) return null;
+    if (view.getUint16(entry, little) === tag) return { entry, little };
+  }
+  return null;
+};
+
+// Value of a SHORT tag in IFD0, or null when it is missing
+const readIfd0Short = (view: DataView, tiff: number, tag: number): number | null => {
+  const found = findIfd0Entry(view, tiff, tag);
+  return found ? view.getUint16(found.entry + 8, found.little) : null;
+};
+
+// Value of a RATIONAL tag in IFD0, which is stored outside the entry
+const readIfd0Rational = (view: DataView, tiff: number, tag: number): number | null => {
+  const found = findIfd0Entry(view, tiff, tag);
+  if (!found) return null;
+  const value = tiff + view.getUint32(found.entry + 8, found.little);
+  if (value + 8 > view.byteLength) return null;
+  const denominator = view.getUint32(value + 4, found.little);
+  return denominator ? view.getUint32(value, found.little) / denominator : null;
+};
+
+// Horizontal resolution from the EXIF header of a JPEG, in pixels per inch
+export const readExifDpi = (view: DataView): number | null => {
+  const tiff = findExifTiff(view);
+  if (tiff === null) return null;
+  const resolution = readIfd0Rational(view, tiff, X_RESOLUTION_TAG);
+  if (!resolution) return null;
+  // 2 is inches (the default), 3 is centimetres
+  const unit = readIfd0Short(view, tiff, RESOLUTION_UNIT_TAG) ?? 2;
+  if (unit === 3) return resolution * 2.54;
+  return unit === 2 ? resolution : null;
+};
+
+export const readExifOrientation = async (blob: Blob): Promise<ExifOrientation> => {
+  const view = new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+  const tiff = findExifTiff(view);
+  if (tiff === null) return 1;
+  const orientation = readIfd0Short(view, tiff, ORIENTATION_TAG);
+  return orientation && orientation >= 1 && orientation <= 8
+    ? (orientation as ExifOrientation)
+    : 1;
+};
@@ -0,0 +1,110 @@
+// The reverse direction: PDF pages and images out as PNG or JPEG files
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { create2dCanvas } from "./canvas";
+import { ConversionCancelledError, type ConversionCallbacks } from "./convertToPdf";
+import { downloadBlob } from "./download";
+import { readExifOrientation } from "./exif";
+import { decodeImage } from "./imageCompression";
+import { hasEdits, renderEdits, type DrawableImage, type ImageEdits } from "./imageEdits";
+import { openPdf, renderPdfPage, RENDER_MIME_TYPES, type PdfPageRef, type PdfRenderFormat } from "./pdfPages";
+import { baseName } from "./utils";
+import { createZip, uniqueFileNames } from "./zip";
+
+export type ImageExportOptions = {
+  format: PdfRenderFormat;
+  // Resolution PDF pages are rendered at; images keep their own pixels
+  dpi: number;
+  // Encoder quality between 0 and 1, only used for JPEG
+  quality: number;
+};
+
+export type ExportPackaging = "files" | "zip";
+
+export type ExportPage = {
+  blob: Blob;
+  name: string;
+  // Rendered again from the PDF at the export resolution when set
+  pdfPage?: PdfPageRef;
+  edits?: ImageEdits;
+};
+
+export type ExportedImage = {
+  name: string;
+  blob: Blob;
+};
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportOptions = {
+  format: "png",
+  dpi: 150,
+  quality: 0.92,
+};
+
+const extensions: Record<PdfRenderFormat, string> = {
+  png: "png",
+  jpeg: "jpg",
+};
+
+const encodeImage = async (img: DrawableImage, { format, quality }: ImageExportOptions): Promise<Blob> => {
+  const { canvas, ctx } = create2dCanvas(img.width, img.height);
+  // JPEG has no alpha channel, so flatten transparent areas onto white
+  if (format === "jpeg") {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, img.width, img.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  return canvas.convertToBlob({ type: RENDER_MIME_TYPES[format], quality });
+};
+
+// Apply edits and convert to the export format, skipping the redraw when nothing changes
+const finishImage = async (blob: Blob, edits: ImageEdits | undefined, options: ImageExportOptions): Promise<Blob> => {
+  if (!hasEdits(edits) && blob.type === RENDER_MIME_TYPES[options.format]) return blob;
+  const img = await decodeImage(blob);
+  try {
+    const exifOrientation = edits?.autoOrient === false ? await readExifOrientation(blob) : 1;
+    return await encodeImage(edits && hasEdits(edits) ? renderEdits(img, edits, exifOrientation) : img, options);
+  } finally {
+    img.close();
+  }
+};
+
+// Render every page in order; PDFs are opened once however many of their pages are used
+export const exportImages = async (
+  pages: ExportPage[],
+  options: ImageExportOptions,
+  { onProgress, signal }: Pick<ConversionCallbacks, "onProgress" | "signal"> = {}
+): Promise<ExportedImage[]> => {
+  const documents = new Map<File, Promise<PDFDocumentProxy>>();
+  const images: ExportedImage[] = [];
+  try {
+    for (const [i, page] of pages.entries()) {
+      if (signal?.aborted) throw new ConversionCancelledError();
+      let blob = page.blob;
+      if (page.pdfPage) {
+        const { file, page: pageNumber } = page.pdfPage;
+        if (!documents.has(file)) documents.set(file, openPdf(file));
+        const pdf = await documents.get(file)!;
+        blob = await renderPdfPage(pdf, pageNumber, options);
+      }
+      images.push({
+        name: `${baseName(page.name)}.${extensions[options.format]}`,
+        blob: await finishImage(blob, page.edits, options),
+      });
+      onProgress?.(i + 1, pages.length);
+    }
+  } finally {
+    for (const pdf of documents.values()) {
+      pdf.then((doc) => doc.destroy()).catch(() => {});
+    }
+  }
+  return images;
+};
+
+// One download per image, or a single ZIP named after the export
+export const downloadImages = async (images: ExportedImage[], packaging: ExportPackaging, zipName: string) => {
+  if (packaging === "zip") {
+    downloadBlob(await createZip(images), zipName);
+    return;
+  }
+  const names = uniqueFileNames(images.map((image) => image.name));
+  images.forEach((image, i) => downloadBlob(image.blob, names[i]));
+};
@@ -0,0 +1,212 @@
+// Enhancement filters for scans and photographed documents, applied after the edits
+import { createPixelCanvas } from "./canvas";
+import type { DrawableImage } from "./imageEdits";
+
+export type ImageFilters = {
+  grayscale?: boolean;
+  // Adaptive black and white for text, which also makes the image grayscale
+  threshold?: boolean;
+  // -100 to 100, 0 leaves the image as it is
+  brightness?: number;
+  contrast?: number;
+  // Stretch the tones so the darkest ink is black and the paper white
+  autoLevels?: boolean;
+  // Rotate slightly tilted text back to level
+  deskew?: boolean;
+};
+
+export const NO_FILTERS: ImageFilters = {};
+
+// Largest tilt deskew looks for, in degrees either way
+const MAX_SKEW = 8;
+// Tilts below this aren't worth resampling the image for
+const MIN_SKEW = 0.15;
+// Longest side the tilt is measured at
+const SKEW_ANALYSIS_SIZE = 800;
+// Share of pixels ignored at each end when stretching levels, so specks don't set the range
+const LEVELS_CLIP = 0.005;
+// Bradley's adaptive threshold: a pixel is ink when this much darker than its neighbourhood
+const THRESHOLD_SENSITIVITY = 0.15;
+// Neighbourhood width as a share of the image width
+const THRESHOLD_WINDOW = 1 / 16;
+
+export const hasFilters = (filters?: ImageFilters): boolean =>
+  !!filters && (
+    !!filters.grayscale ||
+    !!filters.threshold ||
+    !!filters.brightness ||
+    !!filters.contrast ||
+    !!filters.autoLevels ||
+    !!filters.deskew
+  );
+
+// Filters that leave only gray pixels
+export const isGrayscale = (filters?: ImageFilters): boolean =>
+  !!filters && (!!filters.grayscale || !!filters.threshold);
+
+// Per-image filters win over the global ones field by field
+export const resolveFilters = (defaults?: ImageFilters, overrides?: ImageFilters): ImageFilters => {
+  const filters: ImageFilters = { ...defaults };
+  (Object.keys(overrides ?? {}) as (keyof ImageFilters)[]).forEach((key) => {
+    if (overrides?.[key] !== undefined) Object.assign(filters, { [key]: overrides[key] });
+  });
+  return filters;
+};
+
+type Point = { x: number; y: number };
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Text lines are sharpest in the row profile at the right angle, so score each
+// candidate by how uneven the ink counts per row become once rotated by it
+const measureSkew = (source: DrawableImage): number => {
+  const scale = Math.min(1, SKEW_ANALYSIS_SIZE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const { ctx } = createPixelCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const ink: Point[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luminance(data, (y * width + x) * 4) < 128) ink.push({ x: x - width / 2, y: y - height / 2 });
+    }
+  }
+  // Blank or nearly black pages have no lines to level
+  if (ink.length < 50 || ink.length > width * height * 0.5) return 0;
+
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    // Rotated rows stay within half the diagonal of the centre
+    const offset = Math.ceil(Math.hypot(width, height) / 2);
+    const rows = new Uint32Array(offset * 2 + 1);
+    for (const { x, y } of ink) rows[Math.round(y * cos - x * sin) + offset]++;
+    let sum = 0;
+    for (const count of rows) sum += count * count;
+    return sum;
+  };
+
+  // Coarse sweep, then a finer one around the best angle
+  const best = (from: number, to: number, step: number) => {
+    let angle = 0;
+    let top = -1;
+    for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+      const value = score(degrees);
+      if (value > top) {
+        top = value;
+        angle = degrees;
+      }
+    }
+    return angle;
+  };
+  const coarse = best(-MAX_SKEW, MAX_SKEW, 0.5);
+  return best(coarse - 0.5, coarse + 0.5, 0.1);
+};
+
+// Rotate by the measured tilt on a white background, keeping the image size
+const deskew = (source: DrawableImage): DrawableImage => {
+  const skew = measureSkew(source);
+  if (Math.abs(skew) < MIN_SKEW) return source;
+
+  const { canvas, ctx } = createPixelCanvas(source.width, source.height);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, source.width, source.height);
+  ctx.translate(source.width / 2, source.height / 2);
+  ctx.rotate((-skew * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+// Darkest and lightest levels once the outlying pixels are clipped
+const levelRange = (data: Uint8ClampedArray) => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+  const clip = (data.length / 4) * LEVELS_CLIP;
+  let low = 0;
+  let below = histogram[0];
+  while (low < 255 && below <= clip) below += histogram[++low];
+  let high = 255;
+  let above = histogram[255];
+  while (high > 0 && above <= clip) above += histogram[--high];
+  return high > low ? { low, high } : { low: 0, high: 255 };
+};
+
+// Lookup table for the tone changes, shared by all three colour channels so hues are kept
+const toneCurve = (filters: ImageFilters, levels?: { low: number; high: number }) => {
+  const curve = new Uint8ClampedArray(256);
+  const contrast = (filters.contrast ?? 0) / 100;
+  // Squared so the slider gives finer control near zero
+  const contrastFactor = contrast >= 0 ? 1 + 3 * contrast * contrast : 1 + contrast;
+  const brightness = ((filters.brightness ?? 0) / 100) * 255;
+  for (let value = 0; value < 256; value++) {
+    let v = levels ? ((value - levels.low) / (levels.high - levels.low)) * 255 : value;
+    v = (v - 128) * contrastFactor + 128 + brightness;
+    curve[value] = v;
+  }
+  return curve;
+};
+
+// Bradley-Roth thresholding against the mean of each pixel's neighbourhood, read from an
+// integral image, so shadows and uneven lighting don't turn whole regions black
+const adaptiveThreshold = (data: Uint8ClampedArray, width: number, height: number) => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * 4];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(1, Math.round((width * THRESHOLD_WINDOW) / 2));
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      const i = (y * width + x) * 4;
+      const value = data[i] < mean * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+};
+
+// Draw an image with the filters applied, or return it as it is when none are set
+export const applyFilters = (source: DrawableImage, filters?: ImageFilters): DrawableImage => {
+  if (!filters || !hasFilters(filters)) return source;
+  const straightened = filters.deskew ? deskew(source) : source;
+  const tones = filters.autoLevels || filters.brightness || filters.contrast;
+  if (!tones && !isGrayscale(filters)) return straightened;
+
+  const { width, height } = straightened;
+  const { canvas, ctx } = createPixelCanvas(width, height);
+  ctx.drawImage(straightened, 0, 0);
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+
+  if (tones) {
+    const curve = toneCurve(filters, filters.autoLevels ? levelRange(data) : undefined);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = curve[data[i]];
+      data[i + 1] = curve[data[i + 1]];
+      data[i + 2] = curve[data[i + 2]];
+    }
+  }
+  if (isGrayscale(filters)) {
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = data[i + 1] = data[i + 2] = luminance(data, i);
+    }
+  }
+  if (filters.threshold) adaptiveThreshold(data, width, height);
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,66 @@
+// Files dropped or picked together with the folders they came from
+
+export type FolderFile = {
+  file: File;
+  // Path of the containing folder relative to what was dropped, empty for loose files
+  folder: string;
+};
+
+// Natural order, so "page 2" comes before "page 10"
+const compareNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+// System files such as .DS_Store come along with folders but are never wanted
+const isHidden = (name: string) => name.startsWith(".");
+
+const parentFolder = (path: string) => path.split("/").filter(Boolean).slice(0, -1).join("/");
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries hands out directory contents in batches until it returns an empty one
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (!batch.length) break;
+    entries.push(...batch);
+  }
+  return entries.filter((entry) => !isHidden(entry.name)).sort((a, b) => compareNames(a.name, b.name));
+};
+
+const collectEntry = async (entry: FileSystemEntry, files: FolderFile[]) => {
+  if (entry.isFile) {
+    files.push({ file: await readFile(entry as FileSystemFileEntry), folder: parentFolder(entry.fullPath) });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, files);
+    }
+  }
+};
+
+// Every file in a drop, descending into dropped folders
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<FolderFile[]> => {
+  // Items are only readable while the drop event runs, so take the entries before awaiting anything
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry());
+  if (!entries.length || entries.some((entry) => !entry)) {
+    // Browsers without the entries API still list plain files
+    return Array.from(dataTransfer.files, (file) => ({ file, folder: "" }));
+  }
+
+  const files: FolderFile[] = [];
+  for (const entry of entries) {
+    if (entry) await collectEntry(entry, files);
+  }
+  return files;
+};
+
+// Files from a folder picker, in folder order like a drop
+export const readPickedFolder = (files: File[]): FolderFile[] =>
+  files
+    .filter((file) => !isHidden(file.name))
+    .map((file) => ({ file, path: file.webkitRelativePath || file.name }))
+    .sort((a, b) => compareNames(a.path, b.path))
+    .map(({ file, path }) => ({ file, folder: parentFolder(path) }));
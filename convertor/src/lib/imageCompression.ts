@@ -0,0 +1,158 @@
+// Image re-encoding helpers used before images are placed into the PDF
+import { zlibSync } from "fflate";
+import type { ImageCompression } from "jspdf";
+import { create2dCanvas, createPixelCanvas } from "./canvas";
+import type { DrawableImage } from "./imageEdits";
+
+// Formats jsPDF can embed: JPEG files go in as they are, PNG files keep their pixels
+export type PdfImageFormat = "jpeg" | "png";
+
+// jsPDF stores PNG pixels uncompressed unless asked to deflate them
+export const PNG_COMPRESSION: ImageCompression = "SLOW";
+
+export type CompressionOptions = {
+  quality: number;
+  // Upper bounds for the encoded bitmap, omitted to keep the natural size
+  maxWidthPx?: number;
+  maxHeightPx?: number;
+  // The pixels are gray, as after the grayscale or threshold filter, so one channel is stored instead of three
+  grayscale?: boolean;
+};
+
+export type CompressedImage = {
+  data: Uint8Array;
+  format: PdfImageFormat;
+  width: number;
+  height: number;
+  bytes: number;
+};
+
+const formatsByMime: Record<string, PdfImageFormat> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+};
+
+// Scale natural dimensions down (never up) so they fit the optional bounds
+export const constrainSize = (
+  width: number,
+  height: number,
+  maxWidth?: number,
+  maxHeight?: number
+): { width: number; height: number } => {
+  const ratio = Math.min(
+    maxWidth ? maxWidth / width : 1,
+    maxHeight ? maxHeight / height : 1,
+    1
+  );
+  return {
+    width: Math.max(1, Math.round(width * ratio)),
+    height: Math.max(1, Math.round(height * ratio)),
+  };
+};
+
+// Decode an image file into an upright bitmap, works on the main thread and in workers
+export const decodeImage = (blob: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(blob, { imageOrientation: "from-image" });
+
+// PNG chunk checksums
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let bit = 0; bit < 8; bit++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// An 8-bit grayscale PNG, which jsPDF embeds as a single DeviceGray channel.
+// Canvases only export RGB JPEG and RGBA PNG, so the file is written here.
+const encodeGrayPng = (gray: Uint8Array, width: number, height: number): Uint8Array => {
+  // Every row starts with its filter type, 0 for none; jsPDF filters the pixels again when embedding
+  const rows = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) rows.set(gray.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8;
+
+  const chunks = [["IHDR", header], ["IDAT", zlibSync(rows)], ["IEND", new Uint8Array(0)]] as const;
+  const png = new Uint8Array(8 + chunks.reduce((acc, [, data]) => acc + data.length + 12, 0));
+  png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const out = new DataView(png.buffer);
+  let offset = 8;
+  for (const [type, data] of chunks) {
+    out.setUint32(offset, data.length);
+    png.set(Array.from(type, (char) => char.charCodeAt(0)), offset + 4);
+    png.set(data, offset + 8);
+    out.setUint32(offset + 8 + data.length, crc32(png.subarray(offset + 4, offset + 8 + data.length)));
+    offset += data.length + 12;
+  }
+  return png;
+};
+
+// Redraw an image to a canvas and re-encode it as JPEG at the requested quality,
+// or as a lossless grayscale PNG for gray pixels
+export const compressImage = async (
+  img: DrawableImage,
+  options: CompressionOptions
+): Promise<CompressedImage> => {
+  const { width, height } = constrainSize(
+    img.width,
+    img.height,
+    options.maxWidthPx,
+    options.maxHeightPx
+  );
+
+  const { canvas, ctx } = options.grayscale ? createPixelCanvas(width, height) : create2dCanvas(width, height);
+
+  // JPEG has no alpha channel, so flatten transparent areas onto white
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, width, height);
+
+  if (options.grayscale) {
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const gray = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) gray[i] = data[i * 4];
+    const png = encodeGrayPng(gray, width, height);
+    return { data: png, format: "png", width, height, bytes: png.length };
+  }
+
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: options.quality });
+
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    format: "jpeg",
+    width,
+    height,
+    bytes: blob.size,
+  };
+};
+
+// The file itself, for JPEG and PNG files that would only lose quality or grow by being
+// encoded again; null for other formats
+export const embedOriginal = async (
+  blob: Blob,
+  width: number,
+  height: number
+): Promise<CompressedImage | null> => {
+  const format = formatsByMime[blob.type];
+  if (!format) return null;
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    format,
+    width,
+    height,
+    bytes: blob.size,
+  };
+};
+
+// jsPDF image type for an embedded format
+export const pdfImageType = (format: PdfImageFormat): string =>
+  format === "png" ? "PNG" : "JPEG";
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { composeOrientation, invertOrientation, type Orientation, type Rotation } from "./imageEdits";
+
+const rotations: Rotation[] = [0, 90, 180, 270];
+const orientations: Orientation[] = rotations.flatMap((rotation) => [
+  { rotation, flip: false },
+  { rotation, flip: true },
+]);
+
+// Where each corner of a square ends up, to compare orientations by what they do
+const apply = ({ rotation, flip }: Orientation, [x, y]: [number, number]): [number, number] => {
+  let point: [number, number] = flip ? [-x, y] : [x, y];
+  for (let turn = 0; turn < rotation; turn += 90) point = [-point[1], point[0]];
+  return point;
+};
+const corners: [number, number][] = [[1, 2], [-3, 1]];
+const effect = (o: Orientation) => corners.map((corner) => apply(o, corner));
+
+describe("composeOrientation", () => {
+  it("adds up rotations", () => {
+    expect(composeOrientation({ rotation: 90, flip: false }, { rotation: 270, flip: false }))
+      .toEqual({ rotation: 0, flip: false });
+    expect(composeOrientation({ rotation: 180, flip: true }, { rotation: 90, flip: false }))
+      .toEqual({ rotation: 270, flip: true });
+  });
+
+  it("undoes a flip with another flip", () => {
+    expect(composeOrientation({ rotation: 0, flip: true }, { rotation: 0, flip: true }))
+      .toEqual({ rotation: 0, flip: false });
+  });
+
+  it("matches applying one orientation after the other", () => {
+    for (const a of orientations) {
+      for (const b of orientations) {
+        const composed = effect(composeOrientation(a, b));
+        expect(composed).toEqual(corners.map((corner) => apply(b, apply(a, corner))));
+      }
+    }
+  });
+});
+
+describe("invertOrientation", () => {
+  it("turns rotations back", () => {
+    expect(invertOrientation({ rotation: 90, flip: false })).toEqual({ rotation: 270, flip: false });
+    expect(invertOrientation({ rotation: 0, flip: false })).toEqual({ rotation: 0, flip: false });
+  });
+
+  it("leaves flipped orientations as they are, since they undo themselves", () => {
+    expect(invertOrientation({ rotation: 90, flip: true })).toEqual({ rotation: 90, flip: true });
+  });
+
+  it("gives no change when composed with the original", () => {
+    for (const o of orientations) {
+      expect(composeOrientation(o, invertOrientation(o))).toEqual({ rotation: 0, flip: false });
+      expect(composeOrientation(invertOrientation(o), o)).toEqual({ rotation: 0, flip: false });
+    }
+  });
+});
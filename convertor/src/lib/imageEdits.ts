@@ -0,0 +1,226 @@
+// Non-destructive per-image edits: rotation, flipping, page straightening, cropping and filters
+import { create2dCanvas } from "./canvas";
+import {
+  detectPageCorners,
+  flipQuad,
+  rotateQuadClockwise,
+  warpPerspective,
+  warpedSize,
+  type Quad,
+} from "./documentScan";
+import { readExifOrientation, type ExifOrientation } from "./exif";
+import { applyFilters, hasFilters, resolveFilters, type ImageFilters } from "./filters";
+import { decodeImage } from "./imageCompression";
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// A horizontal flip (when set) followed by a clockwise rotation
+export type Orientation = {
+  rotation: Rotation;
+  flip: boolean;
+};
+
+// Crop rectangle as fractions of the oriented image
+export type CropRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ImageEdits = Orientation & {
+  // Corners of a photographed page in the oriented image, flattened before cropping
+  perspective?: Quad;
+  // Crop of the oriented, and when set flattened, image
+  crop?: CropRect;
+  // Enhancements applied last; each one set here wins over the global filters
+  filters?: ImageFilters;
+  // Honour the EXIF orientation of the file, true unless turned off
+  autoOrient?: boolean;
+};
+
+export type DrawableImage = ImageBitmap | OffscreenCanvas;
+
+export const NO_EDITS: ImageEdits = { rotation: 0, flip: false };
+
+const normalizeRotation = (degrees: number): Rotation =>
+  ((((degrees % 360) + 360) % 360) as Rotation);
+
+// Orientation equal to applying a and then b
+export const composeOrientation = (a: Orientation, b: Orientation): Orientation =>
+  b.flip
+    ? { rotation: normalizeRotation(b.rotation - a.rotation), flip: !a.flip }
+    : { rotation: normalizeRotation(a.rotation + b.rotation), flip: a.flip };
+
+export const invertOrientation = (o: Orientation): Orientation =>
+  // A flip followed by a rotation undoes itself
+  o.flip ? o : { rotation: normalizeRotation(-o.rotation), flip: false };
+
+// The transform browsers apply to show an image with this EXIF orientation upright
+export const exifToOrientation = (exif: ExifOrientation): Orientation => {
+  const orientations: Record<ExifOrientation, Orientation> = {
+    1: { rotation: 0, flip: false },
+    2: { rotation: 0, flip: true },
+    3: { rotation: 180, flip: false },
+    4: { rotation: 180, flip: true },
+    5: { rotation: 270, flip: true },
+    6: { rotation: 90, flip: false },
+    7: { rotation: 90, flip: true },
+    8: { rotation: 270, flip: false },
+  };
+  return orientations[exif];
+};
+
+export const hasEdits = (edits?: ImageEdits): boolean =>
+  !!edits && (
+    edits.rotation !== 0 ||
+    edits.flip ||
+    !!edits.crop ||
+    !!edits.perspective ||
+    edits.autoOrient === false ||
+    hasFilters(edits.filters)
+  );
+
+// Edits with the global filters merged under the image's own
+export const withFilters = (edits: ImageEdits | undefined, filters?: ImageFilters): ImageEdits | undefined =>
+  hasFilters(filters) ? { ...(edits ?? NO_EDITS), filters: resolveFilters(filters, edits?.filters) } : edits;
+
+// Move a crop rectangle along with a quarter turn clockwise of the image
+const rotateCropClockwise = (crop: CropRect): CropRect => ({
+  x: 1 - (crop.y + crop.height),
+  y: crop.x,
+  width: crop.height,
+  height: crop.width,
+});
+
+const flipCrop = (crop: CropRect): CropRect => ({
+  ...crop,
+  x: 1 - (crop.x + crop.width),
+});
+
+// Turn the image a quarter clockwise (1) or counter-clockwise (-1), keeping the crop in place
+export const rotateEdits = (edits: ImageEdits, direction: 1 | -1): ImageEdits => {
+  const turns = direction === 1 ? 1 : 3;
+  let crop = edits.crop;
+  let perspective = edits.perspective;
+  for (let i = 0; i < turns; i++) {
+    if (crop) crop = rotateCropClockwise(crop);
+    if (perspective) perspective = rotateQuadClockwise(perspective);
+  }
+  return {
+    ...edits,
+    ...composeOrientation(edits, { rotation: direction === 1 ? 90 : 270, flip: false }),
+    perspective,
+    crop,
+  };
+};
+
+export const flipEdits = (edits: ImageEdits, axis: "horizontal" | "vertical"): ImageEdits => {
+  let crop = edits.crop && flipCrop(edits.crop);
+  let perspective = edits.perspective && flipQuad(edits.perspective);
+  // A vertical flip is a horizontal flip followed by a half turn
+  if (axis === "vertical") {
+    if (crop) crop = rotateCropClockwise(rotateCropClockwise(crop));
+    if (perspective) perspective = rotateQuadClockwise(rotateQuadClockwise(perspective));
+  }
+  return {
+    ...edits,
+    ...composeOrientation(edits, { rotation: axis === "vertical" ? 180 : 0, flip: true }),
+    perspective,
+    crop,
+  };
+};
+
+const orient = (source: DrawableImage, orientation: Orientation): OffscreenCanvas => {
+  const quarterTurn = orientation.rotation === 90 || orientation.rotation === 270;
+  const width = quarterTurn ? source.height : source.width;
+  const height = quarterTurn ? source.width : source.height;
+
+  const { canvas, ctx } = create2dCanvas(width, height);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((orientation.rotation * Math.PI) / 180);
+  if (orientation.flip) ctx.scale(-1, 1);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+// Pixel rectangle of a fractional crop, always at least one pixel
+export const cropToPixels = (crop: CropRect, width: number, height: number) => {
+  const x = Math.min(width - 1, Math.max(0, Math.round(crop.x * width)));
+  const y = Math.min(height - 1, Math.max(0, Math.round(crop.y * height)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height))),
+  };
+};
+
+// Pixel size of an upright image once the edits are applied
+export const editedSize = (width: number, height: number, edits?: ImageEdits) => {
+  if (!edits) return { width, height };
+  const quarterTurn = edits.rotation === 90 || edits.rotation === 270;
+  const oriented = quarterTurn ? { width: height, height: width } : { width, height };
+  const flattened = edits.perspective ? warpedSize(edits.perspective, oriented.width, oriented.height) : oriented;
+  if (!edits.crop) return flattened;
+  const { width: w, height: h } = cropToPixels(edits.crop, flattened.width, flattened.height);
+  return { width: w, height: h };
+};
+
+// Draw an image with its orientation, page straightening, crop and filters applied.
+// The decoded source is already upright per EXIF, so autoOrient: false undoes that first.
+export const renderEdits = (
+  source: DrawableImage,
+  edits: ImageEdits,
+  exifOrientation: ExifOrientation = 1
+): DrawableImage => {
+  const base = edits.autoOrient === false
+    ? invertOrientation(exifToOrientation(exifOrientation))
+    : { rotation: 0 as Rotation, flip: false };
+  const orientation = composeOrientation(base, edits);
+
+  const oriented = orientation.rotation === 0 && !orientation.flip
+    ? source
+    : orient(source, orientation);
+  const flattened = edits.perspective ? warpPerspective(oriented, edits.perspective) : oriented;
+  if (!edits.crop) return applyFilters(flattened, edits.filters);
+
+  const rect = cropToPixels(edits.crop, flattened.width, flattened.height);
+  const { canvas, ctx } = create2dCanvas(rect.width, rect.height);
+  ctx.drawImage(flattened, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return applyFilters(canvas, edits.filters);
+};
+
+// Upright rendering of an edited image, scaled down to maxSize for display
+export const renderEditedPreview = async (
+  blob: Blob,
+  edits: ImageEdits,
+  maxSize?: number
+): Promise<Blob> => {
+  const img = await decodeImage(blob);
+  try {
+    const exifOrientation = edits.autoOrient === false ? await readExifOrientation(blob) : 1;
+    const edited = renderEdits(img, edits, exifOrientation);
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(edited.width, edited.height)) : 1;
+    const { canvas, ctx } = create2dCanvas(
+      Math.max(1, Math.round(edited.width * scale)),
+      Math.max(1, Math.round(edited.height * scale))
+    );
+    ctx.drawImage(edited, 0, 0, canvas.width, canvas.height);
+    return await canvas.convertToBlob({ type: "image/png" });
+  } finally {
+    img.close();
+  }
+};
+
+// Page corners found in the image as the edits orient it, ready to use as its perspective
+export const detectDocument = async (blob: Blob, edits: ImageEdits = NO_EDITS): Promise<Quad | null> => {
+  const img = await decodeImage(blob);
+  try {
+    const exifOrientation = edits.autoOrient === false ? await readExifOrientation(blob) : 1;
+    const oriented = renderEdits(img, { rotation: edits.rotation, flip: edits.flip, autoOrient: edits.autoOrient }, exifOrientation);
+    return detectPageCorners(oriented);
+  } finally {
+    img.close();
+  }
+};
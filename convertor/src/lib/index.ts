@@ -0,0 +1,144 @@
+// Public entry point for using the converter outside the React UI
+export {
+  convertToPdf,
+  convertToPdfs,
+  estimatePdfSize,
+  placeImage,
+  ConversionCancelledError,
+  DEFAULT_CONVERSION_OPTIONS,
+  type ConversionOptions,
+  type ConversionCallbacks,
+  type ConversionInput,
+  type SourceImage,
+  type ItemStatus,
+  type PreparedImage,
+  type PreparedImageCache,
+} from "./convertToPdf";
+export {
+  computeGridCells,
+  computePlacement,
+  contentBox,
+  differingOverrides,
+  fitInBox,
+  fromMm,
+  getGridPageDimensions,
+  getPageDimensions,
+  imagesPerPage,
+  layoutPage,
+  resolveLayout,
+  resolveMargins,
+  resolveOrientation,
+  mmToPx,
+  printDpi,
+  pxToMm,
+  toMm,
+  DEFAULT_DPI,
+  PAGE_DIMENSIONS,
+  type GridLayout,
+  type ImageSize,
+  type LayoutOverrides,
+  type LengthUnit,
+  type Margins,
+  type OrientationSetting,
+  type PageDimensions,
+  type PageLayout,
+  type PageOrientation,
+  type PageSize,
+  type PaperSize,
+  type Placement,
+} from "./layout";
+export { compressImage, type PdfImageFormat } from "./imageCompression";
+export {
+  detectDocument,
+  editedSize,
+  flipEdits,
+  hasEdits,
+  renderEditedPreview,
+  rotateEdits,
+  withFilters,
+  NO_EDITS,
+  type CropRect,
+  type ImageEdits,
+} from "./imageEdits";
+export {
+  detectPageCorners,
+  orderCorners,
+  warpPerspective,
+  type Point,
+  type Quad,
+} from "./documentScan";
+export {
+  applyFilters,
+  hasFilters,
+  resolveFilters,
+  NO_FILTERS,
+  type ImageFilters,
+} from "./filters";
+export { readExifOrientation, type ExifOrientation } from "./exif";
+export { readImageDpi, readImageInfo, type ImageInfo } from "./dpi";
+export {
+  addBookmarks,
+  applyMetadata,
+  insertCoverPages,
+  type BookmarkEntry,
+  type DocumentMetadata,
+} from "./documentInfo";
+export {
+  isProtected,
+  passwordWeaknesses,
+  ALL_PERMISSIONS,
+  type PdfPermission,
+  type PdfSecurity,
+} from "./security";
+export {
+  drawOverlays,
+  fillTemplate,
+  loadWatermarkImage,
+  TEMPLATE_TOKENS,
+  type PageOverlays,
+  type Watermark,
+  type WatermarkImage,
+  type WatermarkPosition,
+} from "./overlays";
+export {
+  createOcrEngine,
+  OCR_LANGUAGES,
+  type OcrLanguage,
+  type OcrOptions,
+  type OcrWord,
+} from "./ocr";
+export { downloadBlob } from "./download";
+export {
+  clearSession,
+  getStorageUsage,
+  isSessionStorageSupported,
+  loadSession,
+  persistStorage,
+  saveSession,
+  type StorageUsage,
+  type StoredSession,
+} from "./sessionStore";
+export { readDroppedFiles, readPickedFolder, type FolderFile } from "./folders";
+export { downloadPdfs, partFileNames, type ConvertedPdf, type SplitOptions } from "./split";
+export { createZip, uniqueFileNames, type ZipEntry } from "./zip";
+export { createProjectFile, decodeJson, encodeJson, readProjectFile } from "./project";
+export { parsePageRanges } from "./pageRanges";
+export { openPdf, renderPdfPage, type PdfPageRef, type PdfRenderFormat } from "./pdfPages";
+export {
+  downloadImages,
+  exportImages,
+  DEFAULT_IMAGE_EXPORT,
+  type ExportPackaging,
+  type ExportPage,
+  type ExportedImage,
+  type ImageExportOptions,
+} from "./exportImages";
+export {
+  ACCEPTED_FILE_TYPES,
+  detectFormat,
+  importFiles,
+  type ImportedImage,
+  type InputFormat,
+  type RejectedFile,
+} from "./decoders";
+export { clearConversionCache, convertInWorker, estimateInWorker, isWorkerSupported } from "./worker/client";
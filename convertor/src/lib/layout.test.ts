@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeGridCells,
+  computePlacement,
+  contentBox,
+  fitInBox,
+  fromMm,
+  getPageDimensions,
+  mmToPx,
+  pxToMm,
+  toMm,
+  type GridLayout,
+} from "./layout";
+
+const box = { x: 10, y: 20, width: 100, height: 200 };
+
+// Pixels that are this many mm wide at the default 96 dpi
+const px = (mm: number) => (mm / 25.4) * 96;
+
+describe("fitInBox", () => {
+  it("shrinks a large image to fit and centres it", () => {
+    // 400 x 400 px at 25.4 dpi is 400 x 400 mm
+    const placement = fitInBox(400, 400, box, "fit", 25.4);
+    expect(placement.width).toBeCloseTo(100);
+    expect(placement.height).toBeCloseTo(100);
+    expect(placement.x).toBeCloseTo(10);
+    expect(placement.y).toBeCloseTo(70);
+  });
+
+  it("never enlarges a small image to fit", () => {
+    const placement = fitInBox(50, 20, box, "fit", 25.4);
+    expect(placement.width).toBeCloseTo(50);
+    expect(placement.height).toBeCloseTo(20);
+    expect(placement.x).toBeCloseTo(35);
+    expect(placement.y).toBeCloseTo(110);
+  });
+
+  it("covers the whole box when filling, overflowing one side", () => {
+    const placement = fitInBox(50, 50, box, "fill", 25.4);
+    expect(placement.width).toBeCloseTo(200);
+    expect(placement.height).toBeCloseTo(200);
+    expect(placement.x).toBeCloseTo(-40);
+    expect(placement.y).toBeCloseTo(20);
+  });
+
+  it("keeps the original size when it fits", () => {
+    const placement = fitInBox(80, 150, box, "original", 25.4);
+    expect(placement.width).toBeCloseTo(80);
+    expect(placement.height).toBeCloseTo(150);
+  });
+
+  it("shrinks the original size only when it overflows", () => {
+    const placement = fitInBox(200, 100, box, "original", 25.4);
+    expect(placement.width).toBeCloseTo(100);
+    expect(placement.height).toBeCloseTo(50);
+  });
+});
+
+describe("computePlacement", () => {
+  // 100 x 200 mm inside the margins
+  const page = { width: 120, height: 220 };
+
+  it("shrinks a large image to fit inside the margins and centres it", () => {
+    const placement = computePlacement(px(400), px(400), page, "fit", 10);
+    expect(placement.width).toBeCloseTo(100);
+    expect(placement.height).toBeCloseTo(100);
+    expect(placement.x).toBeCloseTo(10);
+    expect(placement.y).toBeCloseTo(60);
+  });
+
+  it("never enlarges a small image to fit", () => {
+    const placement = computePlacement(px(50), px(20), page, "fit", 10);
+    expect(placement.width).toBeCloseTo(50);
+    expect(placement.height).toBeCloseTo(20);
+    expect(placement.x).toBeCloseTo(35);
+    expect(placement.y).toBeCloseTo(100);
+  });
+
+  it("covers the printable area when filling, overflowing one side", () => {
+    const placement = computePlacement(px(50), px(50), page, "fill", 10);
+    expect(placement.width).toBeCloseTo(200);
+    expect(placement.height).toBeCloseTo(200);
+    expect(placement.x).toBeCloseTo(-40);
+    expect(placement.y).toBeCloseTo(10);
+  });
+
+  it("keeps the original size when it fits", () => {
+    const placement = computePlacement(px(80), px(150), page, "original", 10);
+    expect(placement.width).toBeCloseTo(80);
+    expect(placement.height).toBeCloseTo(150);
+  });
+
+  it("shrinks the original size only when it overflows", () => {
+    const placement = computePlacement(px(200), px(100), page, "original", 10);
+    expect(placement.width).toBeCloseTo(100);
+    expect(placement.height).toBeCloseTo(50);
+  });
+});
+
+describe("unit conversion", () => {
+  it("converts pixels to mm at the given resolution", () => {
+    expect(pxToMm(96)).toBeCloseTo(25.4);
+    expect(pxToMm(300, 300)).toBeCloseTo(25.4);
+  });
+
+  it("rounds mm to whole pixels, at least one", () => {
+    expect(mmToPx(25.4, 300)).toBe(300);
+    expect(mmToPx(10, 96)).toBe(38);
+    expect(mmToPx(0.01, 72)).toBe(1);
+  });
+
+  it("converts lengths to and from mm", () => {
+    expect(toMm(1, "in")).toBeCloseTo(25.4);
+    expect(toMm(72, "pt")).toBeCloseTo(25.4);
+    expect(toMm(12, "mm")).toBe(12);
+    expect(fromMm(25.4, "in")).toBeCloseTo(1);
+    expect(fromMm(25.4, "pt")).toBeCloseTo(72);
+    expect(fromMm(toMm(3.5, "in"), "in")).toBeCloseTo(3.5);
+  });
+});
+
+describe("getPageDimensions", () => {
+  it("swaps width and height for landscape pages", () => {
+    expect(getPageDimensions("a4", "portrait")).toEqual({ width: 210, height: 297 });
+    expect(getPageDimensions("a4", "landscape")).toEqual({ width: 297, height: 210 });
+  });
+
+  it("uses the custom size, turned for landscape", () => {
+    const customSize = { width: 100, height: 150 };
+    expect(getPageDimensions("custom", "portrait", customSize)).toEqual(customSize);
+    expect(getPageDimensions("custom", "landscape", customSize)).toEqual({ width: 150, height: 100 });
+  });
+
+  it("falls back to A4 for image-sized pages", () => {
+    expect(getPageDimensions("image", "portrait")).toEqual({ width: 210, height: 297 });
+  });
+});
+
+describe("contentBox", () => {
+  const page = { width: 210, height: 297 };
+
+  it("takes the same margin off every side", () => {
+    expect(contentBox(page, 10)).toEqual({ x: 10, y: 10, width: 190, height: 277 });
+  });
+
+  it("takes each side's own margin off", () => {
+    expect(contentBox(page, { top: 5, right: 10, bottom: 15, left: 20 })).toEqual({
+      x: 20,
+      y: 5,
+      width: 180,
+      height: 277,
+    });
+  });
+
+  it("keeps at least 1 mm when the margins overlap", () => {
+    expect(contentBox({ width: 20, height: 20 }, 15)).toEqual({ x: 15, y: 15, width: 1, height: 1 });
+  });
+});
+
+describe("computeGridCells", () => {
+  const page = { width: 220, height: 320 };
+  const grid: GridLayout = { rows: 2, columns: 2, gutter: 10, fillOrder: "row", captions: false };
+  const origins = (cells: { x: number; y: number }[]) => cells.map(({ x, y }) => [x, y]);
+
+  it("splits the content box into equal cells with gutters", () => {
+    const cells = computeGridCells(page, 10, grid);
+    expect(cells).toHaveLength(4);
+    cells.forEach((cell) => {
+      expect(cell.width).toBeCloseTo(95);
+      expect(cell.height).toBeCloseTo(145);
+    });
+  });
+
+  it("fills rows first", () => {
+    expect(origins(computeGridCells(page, 10, grid))).toEqual([[10, 10], [115, 10], [10, 165], [115, 165]]);
+  });
+
+  it("fills columns first", () => {
+    const cells = computeGridCells(page, 10, { ...grid, fillOrder: "column" });
+    expect(origins(cells)).toEqual([[10, 10], [10, 165], [115, 10], [115, 165]]);
+  });
+});
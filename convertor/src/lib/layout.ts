@@ -0,0 +1,297 @@
+// Page geometry and image placement math, all lengths in mm
+
+export type PaperSize =
+  | "a3"
+  | "a4"
+  | "a5"
+  | "b5"
+  | "letter"
+  | "legal"
+  | "tabloid"
+  | "photo4x6";
+// "custom" uses PageLayout.customSize, "image" makes each page as large as its image
+export type PageSize = PaperSize | "custom" | "image";
+export type PageOrientation = "portrait" | "landscape";
+export type ImageSize = "fit" | "fill" | "original";
+// "auto" picks landscape for images wider than they are tall
+export type OrientationSetting = PageOrientation | "auto";
+
+export type LengthUnit = "mm" | "in" | "pt";
+
+export type Margins = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+// Page settings chosen globally, each of which can be overridden per image
+export type PageLayout = {
+  pageSize: PageSize;
+  orientation: OrientationSetting;
+  imageSize: ImageSize;
+  // Margin in mm, either the same on every side or per side
+  margin: number | Margins;
+  // Portrait width and height in mm when pageSize is "custom"
+  customSize?: PageDimensions;
+};
+
+export type LayoutOverrides = Partial<PageLayout>;
+
+export type PageDimensions = {
+  width: number;
+  height: number;
+};
+
+export type Placement = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export const MM_PER_INCH = 25.4;
+export const PT_PER_MM = 72 / MM_PER_INCH;
+
+// Resolution browsers assume for images without physical size information
+export const DEFAULT_DPI = 96;
+
+export const PAGE_DIMENSIONS: Record<PaperSize, PageDimensions> = {
+  a3: { width: 297, height: 420 },
+  a4: { width: 210, height: 297 },
+  a5: { width: 148, height: 210 },
+  b5: { width: 176, height: 250 },
+  letter: { width: 215.9, height: 279.4 },
+  legal: { width: 215.9, height: 355.6 },
+  tabloid: { width: 279.4, height: 431.8 },
+  photo4x6: { width: 101.6, height: 152.4 },
+};
+
+const MM_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 1,
+  in: MM_PER_INCH,
+  pt: MM_PER_INCH / 72,
+};
+
+export const toMm = (value: number, unit: LengthUnit): number => value * MM_PER_UNIT[unit];
+
+export const fromMm = (mm: number, unit: LengthUnit): number => mm / MM_PER_UNIT[unit];
+
+export const resolveMargins = (margin: number | Margins): Margins =>
+  typeof margin === "number"
+    ? { top: margin, right: margin, bottom: margin, left: margin }
+    : margin;
+
+// Resolution an image of this many pixels across is printed at
+export const printDpi = (widthPx: number, widthMm: number): number =>
+  (widthPx / widthMm) * MM_PER_INCH;
+
+export const pxToMm = (px: number, dpi: number = DEFAULT_DPI): number =>
+  (px / dpi) * MM_PER_INCH;
+
+// Pixels needed to print a length in mm at the given DPI
+export const mmToPx = (mm: number, dpi: number): number =>
+  Math.max(1, Math.round((mm / MM_PER_INCH) * dpi));
+
+export const resolveOrientation = (
+  orientation: OrientationSetting,
+  imgWidthPx: number,
+  imgHeightPx: number
+): PageOrientation =>
+  orientation === "auto"
+    ? (imgWidthPx > imgHeightPx ? "landscape" : "portrait")
+    : orientation;
+
+// Global layout with the overrides that are actually set applied on top
+export const resolveLayout = (defaults: PageLayout, overrides?: LayoutOverrides): PageLayout => {
+  const layout = { ...defaults };
+  if (overrides?.pageSize) layout.pageSize = overrides.pageSize;
+  if (overrides?.orientation) layout.orientation = overrides.orientation;
+  if (overrides?.imageSize) layout.imageSize = overrides.imageSize;
+  if (overrides?.margin !== undefined) layout.margin = overrides.margin;
+  if (overrides?.customSize) layout.customSize = overrides.customSize;
+  return layout;
+};
+
+// Overrides whose value differs from the global layout
+export const differingOverrides = (defaults: PageLayout, overrides?: LayoutOverrides): (keyof PageLayout)[] =>
+  (Object.keys(overrides ?? {}) as (keyof PageLayout)[]).filter(
+    // Margins and custom sizes are objects, so compare them by value
+    (key) => overrides?.[key] !== undefined && JSON.stringify(overrides[key]) !== JSON.stringify(defaults[key])
+  );
+
+// Image-sized pages have no fixed size, so they fall back to A4 where one is needed
+export const getPageDimensions = (
+  pageSize: PageSize,
+  orientation: PageOrientation,
+  customSize?: PageDimensions
+): PageDimensions => {
+  const dimensions = pageSize === "custom" && customSize
+    ? customSize
+    : PAGE_DIMENSIONS[pageSize === "custom" || pageSize === "image" ? "a4" : pageSize];
+  const isLandscape = orientation === "landscape";
+  return {
+    width: isLandscape ? dimensions.height : dimensions.width,
+    height: isLandscape ? dimensions.width : dimensions.height,
+  };
+};
+
+// Position and size of an image centred inside a box
+export const fitInBox = (
+  imgWidthPx: number,
+  imgHeightPx: number,
+  box: Placement,
+  imageSize: ImageSize,
+  dpi: number = DEFAULT_DPI
+): Placement => {
+  const maxW = box.width;
+  const maxH = box.height;
+
+  const imgWmm = pxToMm(imgWidthPx, dpi);
+  const imgHmm = pxToMm(imgHeightPx, dpi);
+
+  let finalW = imgWmm;
+  let finalH = imgHmm;
+
+  switch (imageSize) {
+    case "fit": {
+      // Shrink to the printable area but never enlarge
+      const ratio = Math.min(maxW / imgWmm, maxH / imgHmm, 1);
+      finalW = imgWmm * ratio;
+      finalH = imgHmm * ratio;
+      break;
+    }
+
+    case "fill": {
+      // Cover the printable area, overflowing one side if needed
+      const ratio = Math.max(maxW / imgWmm, maxH / imgHmm);
+      finalW = imgWmm * ratio;
+      finalH = imgHmm * ratio;
+      break;
+    }
+
+    case "original":
+      // Keep original size, but ensure it fits on page
+      if (finalW > maxW || finalH > maxH) {
+        const ratio = Math.min(maxW / finalW, maxH / finalH, 1);
+        finalW *= ratio;
+        finalH *= ratio;
+      }
+      break;
+  }
+
+  return {
+    x: box.x + (box.width - finalW) / 2,
+    y: box.y + (box.height - finalH) / 2,
+    width: finalW,
+    height: finalH,
+  };
+};
+
+// Area of the page inside the margins
+export const contentBox = (page: PageDimensions, margin: number | Margins): Placement => {
+  const m = resolveMargins(margin);
+  return {
+    x: m.left,
+    y: m.top,
+    width: Math.max(1, page.width - m.left - m.right),
+    height: Math.max(1, page.height - m.top - m.bottom),
+  };
+};
+
+// Position and size of an image centred on the page inside the margins
+export const computePlacement = (
+  imgWidthPx: number,
+  imgHeightPx: number,
+  page: PageDimensions,
+  imageSize: ImageSize,
+  margin: number | Margins,
+  dpi: number = DEFAULT_DPI
+): Placement => fitInBox(imgWidthPx, imgHeightPx, contentBox(page, margin), imageSize, dpi);
+
+// Page for a single image and where the image goes on it
+export const layoutPage = (
+  layout: PageLayout,
+  imgWidthPx: number,
+  imgHeightPx: number,
+  dpi: number = DEFAULT_DPI
+): { page: PageDimensions; placement: Placement } => {
+  if (layout.pageSize === "image") {
+    // The page wraps the image at its physical size plus the margins
+    const m = resolveMargins(layout.margin);
+    const width = pxToMm(imgWidthPx, dpi);
+    const height = pxToMm(imgHeightPx, dpi);
+    return {
+      page: { width: width + m.left + m.right, height: height + m.top + m.bottom },
+      placement: { x: m.left, y: m.top, width, height },
+    };
+  }
+
+  const page = getPageDimensions(
+    layout.pageSize,
+    resolveOrientation(layout.orientation, imgWidthPx, imgHeightPx),
+    layout.customSize
+  );
+  return {
+    page,
+    placement: computePlacement(imgWidthPx, imgHeightPx, page, layout.imageSize, layout.margin, dpi),
+  };
+};
+
+// Several images per page laid out in equal cells
+export type GridLayout = {
+  rows: number;
+  columns: number;
+  // Space between cells in mm
+  gutter: number;
+  // Fill each row before moving down, or each column before moving right
+  fillOrder: "row" | "column";
+  // Print the file name under each image
+  captions: boolean;
+};
+
+// Height reserved under each image for its caption, in mm
+export const GRID_CAPTION_HEIGHT = 5;
+
+export const imagesPerPage = (grid?: GridLayout): number =>
+  grid ? Math.max(1, grid.rows) * Math.max(1, grid.columns) : 1;
+
+// Grid pages use the global page size; "auto" follows the shape of the grid
+export const getGridPageDimensions = (layout: PageLayout, grid: GridLayout): PageDimensions =>
+  getPageDimensions(
+    layout.pageSize,
+    layout.orientation === "auto"
+      ? (grid.columns > grid.rows ? "landscape" : "portrait")
+      : layout.orientation,
+    layout.customSize
+  );
+
+// Cell rectangles of a grid page in fill order, including the caption strip
+export const computeGridCells = (
+  page: PageDimensions,
+  margin: number | Margins,
+  grid: GridLayout
+): Placement[] => {
+  const rows = Math.max(1, grid.rows);
+  const columns = Math.max(1, grid.columns);
+  const content = contentBox(page, margin);
+  const cellW = (content.width - grid.gutter * (columns - 1)) / columns;
+  const cellH = (content.height - grid.gutter * (rows - 1)) / rows;
+
+  return Array.from({ length: rows * columns }, (_, index) => {
+    const row = grid.fillOrder === "row" ? Math.floor(index / columns) : index % rows;
+    const column = grid.fillOrder === "row" ? index % columns : Math.floor(index / rows);
+    return {
+      x: content.x + column * (cellW + grid.gutter),
+      y: content.y + row * (cellH + grid.gutter),
+      width: cellW,
+      height: cellH,
+    };
+  });
+};
+
+// Part of a cell the image may use once room for the caption is taken off
+export const cellImageBox = (cell: Placement, grid: GridLayout): Placement =>
+  grid.captions
+    ? { ...cell, height: Math.max(1, cell.height - GRID_CAPTION_HEIGHT) }
+    : cell;
@@ -0,0 +1,99 @@
+// Text recognition with Tesseract, run entirely in the browser
+import type { Worker as TesseractWorker } from "tesseract.js";
+import type { jsPDF } from "jspdf";
+import { create2dCanvas } from "./canvas";
+import type { DrawableImage } from "./imageEdits";
+import { PT_PER_MM, type Placement } from "./layout";
+
+export type OcrLanguage = "eng" | "deu" | "fra" | "spa";
+
+export const OCR_LANGUAGES: Record<OcrLanguage, string> = {
+  eng: "English",
+  deu: "German",
+  fra: "French",
+  spa: "Spanish",
+};
+
+export type OcrOptions = {
+  languages: OcrLanguage[];
+};
+
+// A recognised word with its box as fractions of the image
+export type OcrWord = {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type OcrEngine = {
+  recognize: (image: DrawableImage) => Promise<OcrWord[]>;
+  terminate: () => Promise<void>;
+};
+
+// Copied into the build by vite.config.ts, so no CDN is ever contacted
+const assetUrl = (path: string) =>
+  new URL(`${import.meta.env.BASE_URL}tesseract/${path}`, self.location.href).href;
+
+export const createOcrEngine = async ({ languages }: OcrOptions): Promise<OcrEngine> => {
+  // Tesseract is large, so only load it when OCR is turned on
+  const { createWorker, OEM } = await import("tesseract.js");
+  const worker: TesseractWorker = await createWorker(languages.length ? languages : ["eng"], OEM.LSTM_ONLY, {
+    workerPath: assetUrl("worker.min.js"),
+    corePath: assetUrl("core"),
+    langPath: assetUrl("lang"),
+    workerBlobURL: false,
+    gzip: true,
+    // The bundled data never changes, so there is nothing to gain from caching it again
+    cacheMethod: "none",
+  });
+
+  return {
+    recognize: async (image) => {
+      // Tesseract reads canvases but not bitmaps
+      const { canvas, ctx } = create2dCanvas(image.width, image.height);
+      ctx.drawImage(image, 0, 0);
+
+      const { data } = await worker.recognize(canvas, {}, { blocks: true });
+      const words: OcrWord[] = [];
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            for (const word of line.words) {
+              const text = word.text.trim();
+              if (!text) continue;
+              words.push({
+                text,
+                x: word.bbox.x0 / image.width,
+                y: word.bbox.y0 / image.height,
+                width: (word.bbox.x1 - word.bbox.x0) / image.width,
+                height: (word.bbox.y1 - word.bbox.y0) / image.height,
+              });
+            }
+          }
+        }
+      }
+      return words;
+    },
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+};
+
+// Invisible text over the image, so the page can be searched and copied
+export const drawTextLayer = (pdf: jsPDF, words: OcrWord[], placement: Placement) => {
+  for (const word of words) {
+    const width = word.width * placement.width;
+    const height = word.height * placement.height;
+    pdf.setFontSize(height * PT_PER_MM);
+    const natural = pdf.getTextWidth(word.text);
+    pdf.text(word.text, placement.x + word.x * placement.width, placement.y + (word.y + word.height) * placement.height, {
+      renderingMode: "invisible",
+      baseline: "bottom",
+      // Stretch the word to its box so selections line up with the image
+      horizontalScale: natural ? width / natural : 1,
+    });
+  }
+};
@@ -0,0 +1,195 @@
+// Header, footer and watermark drawn on top of every page as vector content
+import { GState, type jsPDF } from "jspdf";
+import { create2dCanvas } from "./canvas";
+import { decodeImage, PNG_COMPRESSION } from "./imageCompression";
+import { PT_PER_MM, type PageDimensions } from "./layout";
+
+export type WatermarkPosition =
+  | "center"
+  | "top"
+  | "bottom"
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
+// Logo pixels ready for jsPDF.addImage
+export type WatermarkImage = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+};
+
+export type Watermark = {
+  kind: "text" | "image";
+  text?: string;
+  image?: WatermarkImage;
+  // Between 0 (invisible) and 1 (opaque)
+  opacity: number;
+  position: WatermarkPosition;
+  // Counter-clockwise rotation of text in degrees
+  angle: number;
+  // Font size in pt for text, fraction of the page width for images
+  size: number;
+  // Hex text colour
+  color: string;
+};
+
+export type PageOverlays = {
+  // Templates that may contain {page}, {pages}, {filename} and {date}
+  header?: string;
+  footer?: string;
+  // Header and footer font size in pt
+  fontSize?: number;
+  watermark?: Watermark;
+};
+
+export type TemplateValues = {
+  page: number;
+  pages: number;
+  filename: string;
+  date: string;
+};
+
+export const TEMPLATE_TOKENS = ["{page}", "{pages}", "{filename}", "{date}"];
+
+// Distance of headers, footers and corner watermarks from the page edge in mm
+const EDGE_OFFSET = 6;
+const WATERMARK_PADDING = 10;
+
+export const fillTemplate = (template: string, values: TemplateValues): string =>
+  template.replace(/\{(page|pages|filename|date)\}/g, (_, token: keyof TemplateValues) =>
+    String(values[token])
+  );
+
+// Shorten text with an ellipsis until it fits the width at the current font size
+export const fitText = (pdf: jsPDF, text: string, maxWidth: number): string => {
+  let fitted = text;
+  while (fitted.length > 1 && pdf.getTextWidth(fitted) > maxWidth) {
+    fitted = `${fitted.slice(0, -2)}…`;
+  }
+  return fitted;
+};
+
+const watermarkContent = (watermark?: Watermark) => {
+  if (watermark?.kind === "text" && watermark.text) return { text: watermark.text };
+  if (watermark?.kind === "image" && watermark.image) return { image: watermark.image };
+  return null;
+};
+
+export const hasOverlays = (overlays?: PageOverlays): boolean =>
+  !!overlays && (!!overlays.header || !!overlays.footer || !!watermarkContent(overlays.watermark));
+
+// Centre of a box of this size placed at the position inside the padded page
+const anchorFor = (
+  position: WatermarkPosition,
+  page: PageDimensions,
+  boxWidth: number,
+  boxHeight: number
+) => {
+  const left = WATERMARK_PADDING + boxWidth / 2;
+  const right = page.width - WATERMARK_PADDING - boxWidth / 2;
+  const top = WATERMARK_PADDING + boxHeight / 2;
+  const bottom = page.height - WATERMARK_PADDING - boxHeight / 2;
+  return {
+    x: position.endsWith("left") ? left : position.endsWith("right") ? right : page.width / 2,
+    y: position.startsWith("top") ? top : position.startsWith("bottom") ? bottom : page.height / 2,
+  };
+};
+
+const drawWatermark = (pdf: jsPDF, watermark: Watermark, page: PageDimensions) => {
+  const content = watermarkContent(watermark);
+  if (!content) return;
+
+  pdf.saveGraphicsState();
+  pdf.setGState(new GState({ opacity: Math.min(1, Math.max(0, watermark.opacity)) }));
+
+  if (content.image) {
+    const width = page.width * watermark.size;
+    const height = width * (content.image.height / content.image.width);
+    const { x, y } = anchorFor(watermark.position, page, width, height);
+    // The alias makes every page reuse one embedded copy of the logo
+    pdf.addImage(content.image.data, "PNG", x - width / 2, y - height / 2, width, height, "watermark", PNG_COMPRESSION);
+  } else {
+    pdf.setFontSize(watermark.size);
+    pdf.setTextColor(watermark.color);
+    const width = pdf.getTextWidth(content.text);
+    const height = watermark.size / PT_PER_MM;
+    const radians = (watermark.angle * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    // Bounding box of the rotated text, so corner positions stay on the page
+    const { x, y } = anchorFor(
+      watermark.position,
+      page,
+      Math.abs(width * cos) + Math.abs(height * sin),
+      Math.abs(width * sin) + Math.abs(height * cos)
+    );
+    // jsPDF rotates around the start of the baseline, so start half a width back along it
+    pdf.text(content.text, x - (cos * width) / 2, y + (sin * width) / 2, {
+      angle: watermark.angle,
+      baseline: "middle",
+    });
+  }
+
+  pdf.restoreGraphicsState();
+};
+
+// Draw the overlays on every page; names holds the file names placed on each page
+export const drawOverlays = (
+  pdf: jsPDF,
+  overlays: PageOverlays,
+  names: string[][],
+  date: Date = new Date()
+) => {
+  const pages = pdf.getNumberOfPages();
+  const fontSize = overlays.fontSize ?? 9;
+
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page);
+    const size = {
+      width: pdf.internal.pageSize.getWidth(),
+      height: pdf.internal.pageSize.getHeight(),
+    };
+    const values: TemplateValues = {
+      page,
+      pages,
+      filename: (names[page - 1] ?? []).join(", "),
+      date: date.toLocaleDateString(),
+    };
+
+    if (overlays.watermark) drawWatermark(pdf, overlays.watermark, size);
+
+    pdf.setFontSize(fontSize);
+    pdf.setTextColor(80);
+    if (overlays.header) {
+      pdf.text(fillTemplate(overlays.header, values), size.width / 2, EDGE_OFFSET, {
+        align: "center",
+        baseline: "middle"
+      });
+    }
+    if (overlays.footer) {
+      pdf.text(fillTemplate(overlays.footer, values), size.width / 2, size.height - EDGE_OFFSET, {
+        align: "center",
+        baseline: "middle"
+      });
+    }
+  }
+};
+
+// Normalise an uploaded logo to PNG so any supported image can be a watermark
+export const loadWatermarkImage = async (blob: Blob): Promise<WatermarkImage> => {
+  const img = await decodeImage(blob);
+  try {
+    const { canvas, ctx } = create2dCanvas(img.width, img.height);
+    ctx.drawImage(img, 0, 0);
+    const png = await canvas.convertToBlob({ type: "image/png" });
+    return {
+      data: new Uint8Array(await png.arrayBuffer()),
+      width: img.width,
+      height: img.height,
+    };
+  } finally {
+    img.close();
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parsePageRanges } from "./pageRanges";
+
+describe("parsePageRanges", () => {
+  it("selects every page for empty text", () => {
+    expect(parsePageRanges("", 3)).toEqual([1, 2, 3]);
+    expect(parsePageRanges("  ", 2)).toEqual([1, 2]);
+  });
+
+  it("reads single pages and ranges in the order typed", () => {
+    expect(parsePageRanges("7, 1-3", 10)).toEqual([7, 1, 2, 3]);
+  });
+
+  it("leaves out repeated pages", () => {
+    expect(parsePageRanges("2-4,3,2", 5)).toEqual([2, 3, 4]);
+  });
+
+  it("runs open ranges to the first or last page", () => {
+    expect(parsePageRanges("4-", 6)).toEqual([4, 5, 6]);
+    expect(parsePageRanges("-2", 6)).toEqual([1, 2]);
+  });
+
+  it("ignores empty parts", () => {
+    expect(parsePageRanges("1,,3,", 3)).toEqual([1, 3]);
+  });
+
+  it("rejects text that isn't a page or range", () => {
+    expect(() => parsePageRanges("a", 3)).toThrow('"a" is not a page or range');
+    expect(() => parsePageRanges("-", 3)).toThrow("is not a page or range");
+  });
+
+  it("rejects pages outside the document", () => {
+    expect(() => parsePageRanges("0", 3)).toThrow("Pages are counted from 1");
+    expect(() => parsePageRanges("4", 3)).toThrow("There are only 3 pages");
+    expect(() => parsePageRanges("2", 1)).toThrow("There is only 1 page");
+  });
+
+  it("rejects ranges that run backwards", () => {
+    expect(() => parsePageRanges("3-1", 3)).toThrow('"3-1" runs backwards');
+  });
+
+  it("rejects a selection without pages", () => {
+    expect(() => parsePageRanges(",", 3)).toThrow("No pages selected");
+  });
+});
@@ -0,0 +1,30 @@
+// Page selections such as "1-3,7", as typed by the user
+
+// Page numbers counted from 1, in the order typed without repeats; empty text selects every page
+export const parsePageRanges = (text: string, pageCount: number): number[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const pages: number[] = [];
+  for (const part of trimmed.split(",")) {
+    const range = part.trim();
+    if (!range) continue;
+    const match = /^(\d+)?\s*(-)?\s*(\d+)?$/.exec(range);
+    if (!match || (!match[1] && !match[3])) throw new Error(`"${range}" is not a page or range`);
+
+    // "5-" runs to the last page and "-3" starts at the first
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+    if (start < 1 || end < 1) throw new Error("Pages are counted from 1");
+    if (start > pageCount || end > pageCount) {
+      throw new Error(`There ${pageCount === 1 ? "is only 1 page" : `are only ${pageCount} pages`}`);
+    }
+    if (start > end) throw new Error(`"${range}" runs backwards`);
+
+    for (let page = start; page <= end; page++) {
+      if (!pages.includes(page)) pages.push(page);
+    }
+  }
+  if (!pages.length) throw new Error("No pages selected");
+  return pages;
+};
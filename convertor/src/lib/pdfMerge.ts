@@ -0,0 +1,182 @@
+// Copies pages of imported PDFs into the finished output with pdf-lib, so their text,
+// vector graphics and links survive instead of being flattened into images
+import type { PDFDocument, PDFPage, PDFRef, TransformationMatrix } from "pdf-lib";
+import { PT_PER_MM, type Placement } from "./layout";
+import type { PdfPageRef } from "./pdfPages";
+
+// Where a page of an imported PDF goes in the output
+export type PageCopy = {
+  source: PdfPageRef;
+  // Output page, counted from 1
+  page: number;
+  placement: Placement;
+  // Grid cell the page is clipped to, since "fill" overflows it
+  clip?: Placement;
+};
+
+type PdfLib = typeof import("pdf-lib");
+
+// Entries of a source page that drawing it needs; the rest, such as annotations, would
+// pull other pages of the source PDF into the output with them
+const DRAWING_ENTRIES = ["Type", "Parent", "Contents", "Resources", "MediaBox", "CropBox", "Rotate"];
+
+// pdf-lib is large, so only load it when a PDF page is copied
+const loadPdfLib = (): Promise<PdfLib> => import("pdf-lib");
+
+const copyable = new WeakMap<Blob, Promise<boolean>>();
+
+// Whether pdf-lib can read a PDF; encrypted or damaged files have to be rendered instead
+export const canCopyPages = (file: Blob): Promise<boolean> => {
+  let result = copyable.get(file);
+  if (!result) {
+    result = loadPdfLib()
+      .then(async ({ PDFDocument }) => PDFDocument.load(await file.arrayBuffer()))
+      .then(() => true, () => false);
+    copyable.set(file, result);
+  }
+  return result;
+};
+
+const apply = ([a, b, c, d, e, f]: TransformationMatrix, x: number, y: number) => ({
+  x: a * x + c * y + e,
+  y: b * x + d * y + f,
+});
+
+// Maps the user space of a source page onto its placement on an output page, turned
+// the way the page's /Rotate shows it. Placements are in mm from the top left corner.
+const placementMatrix = (page: PDFPage, placement: Placement, pageHeight: number): TransformationMatrix => {
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const scaleX = (placement.width * PT_PER_MM) / (quarterTurn ? box.height : box.width);
+  const scaleY = (placement.height * PT_PER_MM) / (quarterTurn ? box.width : box.height);
+  const x = placement.x * PT_PER_MM;
+  const y = pageHeight - (placement.y + placement.height) * PT_PER_MM;
+
+  // Upright crop box with its lower left corner at the origin
+  const orientations: Record<number, TransformationMatrix> = {
+    0: [1, 0, 0, 1, -box.x, -box.y],
+    90: [0, -1, 1, 0, -box.y, box.x + box.width],
+    180: [-1, 0, 0, -1, box.x + box.width, box.y + box.height],
+    270: [0, 1, -1, 0, box.y + box.height, -box.x],
+  };
+  const [a, b, c, d, e, f] = orientations[rotation] ?? orientations[0];
+  return [a * scaleX, b * scaleY, c * scaleX, d * scaleY, e * scaleX + x, f * scaleY + y];
+};
+
+// Web links of a source page, moved to where the page is drawn. Links to other pages
+// of the source PDF are left out, since those pages may not be in the output.
+const copyLinks = (lib: PdfLib, output: PDFDocument, target: PDFPage, source: PDFPage, matrix: TransformationMatrix) => {
+  const { PDFArray, PDFDict, PDFName, PDFNumber } = lib;
+  const annots = source.node.Annots();
+  if (!annots) return;
+
+  for (let i = 0; i < annots.size(); i++) {
+    const annot = annots.lookupMaybe(i, PDFDict);
+    const action = annot?.lookupMaybe(PDFName.of("A"), PDFDict);
+    const uri = action?.lookup(PDFName.of("URI"));
+    const rect = annot?.lookupMaybe(PDFName.of("Rect"), PDFArray);
+    if (annot?.get(PDFName.of("Subtype")) !== PDFName.of("Link") || !uri || rect?.size() !== 4) continue;
+
+    const [x1, y1, x2, y2] = [0, 1, 2, 3].map((j) => rect.lookup(j, PDFNumber).asNumber());
+    const corners = [apply(matrix, x1, y1), apply(matrix, x2, y1), apply(matrix, x2, y2), apply(matrix, x1, y2)];
+    const xs = corners.map((p) => p.x);
+    const ys = corners.map((p) => p.y);
+    const link = output.context.register(output.context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+      Border: [0, 0, 0],
+      A: { S: "URI", URI: uri },
+    }));
+
+    let targetAnnots = target.node.Annots();
+    if (!targetAnnots) {
+      targetAnnots = output.context.obj([]);
+      target.node.set(PDFName.of("Annots"), targetAnnots);
+    }
+    targetAnnots.push(link);
+  }
+};
+
+// Put a content stream in front of what jsPDF drew, so headers and watermarks stay on top
+const prependContent = (lib: PdfLib, output: PDFDocument, page: PDFPage, stream: PDFRef) => {
+  const { PDFArray, PDFName } = lib;
+  const contents = page.node.Contents();
+  if (contents instanceof PDFArray) {
+    contents.insert(0, stream);
+    return;
+  }
+  const current = page.node.get(PDFName.of("Contents"));
+  page.node.set(PDFName.of("Contents"), output.context.obj(current ? [stream, current] : [stream]));
+};
+
+// Draw each copied page under whatever jsPDF put on its output page, such as overlays
+export const copyPdfPages = async (pdf: ArrayBuffer, copies: PageCopy[]): Promise<Uint8Array> => {
+  const lib = await loadPdfLib();
+  const { PDFDict, PDFDocument, PDFName, clip, concatTransformationMatrix, drawObject, endPath, popGraphicsState, pushGraphicsState, rectangle } = lib;
+  // jsPDF already wrote the title, author and dates, so pdf-lib mustn't replace them
+  const output = await PDFDocument.load(pdf, { updateMetadata: false });
+  const pages = output.getPages();
+
+  const bySource = new Map<Blob, PageCopy[]>();
+  copies.forEach((copy) => bySource.set(copy.source.file, [...(bySource.get(copy.source.file) ?? []), copy]));
+
+  let count = 0;
+  for (const [file, fileCopies] of bySource) {
+    const source = await PDFDocument.load(await file.arrayBuffer());
+    const sourcePages = fileCopies.map((copy) => source.getPage(copy.source.page - 1));
+    const matrices = fileCopies.map((copy, i) => placementMatrix(sourcePages[i], copy.placement, pages[copy.page - 1].getHeight()));
+    sourcePages.forEach((page, i) => {
+      copyLinks(lib, output, pages[fileCopies[i].page - 1], page, matrices[i]);
+      const keep = DRAWING_ENTRIES.map((key) => PDFName.of(key));
+      page.node.keys().filter((key) => !keep.includes(key)).forEach((key) => page.node.delete(key));
+    });
+
+    // Embedded together so fonts and images the pages share are stored once
+    const embedded = await output.embedPages(
+      sourcePages,
+      sourcePages.map((page) => {
+        const box = page.getCropBox();
+        return { left: box.x, bottom: box.y, right: box.x + box.width, top: box.y + box.height };
+      }),
+      // Keep the form in the page's own user space; placementMatrix moves it into place
+      sourcePages.map((): TransformationMatrix => [1, 0, 0, 1, 0, 0])
+    );
+
+    fileCopies.forEach((copy, i) => {
+      const target = pages[copy.page - 1];
+      const name = PDFName.of(`CopiedPage${++count}`);
+      let resources = target.node.Resources();
+      if (!resources) {
+        resources = output.context.obj({});
+        target.node.set(PDFName.of("Resources"), resources);
+      }
+      let xObjects = resources.lookupMaybe(PDFName.of("XObject"), PDFDict);
+      if (!xObjects) {
+        xObjects = output.context.obj({});
+        resources.set(PDFName.of("XObject"), xObjects);
+      }
+      xObjects.set(name, embedded[i].ref);
+
+      const height = target.getHeight();
+      const clipping = copy.clip
+        ? [
+          rectangle(copy.clip.x * PT_PER_MM, height - (copy.clip.y + copy.clip.height) * PT_PER_MM, copy.clip.width * PT_PER_MM, copy.clip.height * PT_PER_MM),
+          clip(),
+          endPath(),
+        ]
+        : [];
+      const stream = output.context.register(output.context.contentStream([
+        pushGraphicsState(),
+        ...clipping,
+        concatTransformationMatrix(...matrices[i]),
+        drawObject(name),
+        popGraphicsState(),
+      ]));
+      prependContent(lib, output, target, stream);
+    });
+  }
+
+  return output.save();
+};
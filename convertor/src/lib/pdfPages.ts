@@ -0,0 +1,68 @@
+// Reads existing PDFs with pdf.js so their pages can be used like images
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+export type PdfRenderFormat = "png" | "jpeg";
+
+// A page of an imported PDF, counted from 1
+export type PdfPageRef = {
+  file: File;
+  page: number;
+};
+
+export type PdfRenderOptions = {
+  dpi: number;
+  format: PdfRenderFormat;
+  // Encoder quality between 0 and 1, only used for JPEG
+  quality?: number;
+};
+
+// PDF user space is measured in points
+const POINTS_PER_INCH = 72;
+
+export const RENDER_MIME_TYPES: Record<PdfRenderFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+};
+
+export const openPdf = async (blob: Blob): Promise<PDFDocumentProxy> => {
+  // pdf.js is large, so only load it when a PDF shows up
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    // Served with the app like any other asset, so parsing stays offline
+    const { default: workerSrc } = await import("pdfjs-dist/build/pdf.worker.min.mjs?url");
+    pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  }
+  try {
+    return await pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+  } catch (error) {
+    // pdf.js doesn't export PasswordException, so recognise it by name
+    if (error instanceof Error && error.name === "PasswordException") throw new Error("The PDF is password protected");
+    throw error;
+  }
+};
+
+// Render one page, counted from 1, on a white background
+export const renderPdfPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  { dpi, format, quality = 0.92 }: PdfRenderOptions
+): Promise<Blob> => {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: dpi / POINTS_PER_INCH });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(viewport.width));
+    canvas.height = Math.max(1, Math.round(viewport.height));
+    await page.render({ canvas, viewport }).promise;
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Canvas encoding failed"))),
+        RENDER_MIME_TYPES[format],
+        quality
+      );
+    });
+  } finally {
+    page.cleanup();
+  }
+};
@@ -0,0 +1,100 @@
+// Project files: a session zipped as a JSON manifest plus the images, to reopen elsewhere
+import { unzip } from "fflate";
+import type { StoredSession } from "./sessionStore";
+import { createZip, uniqueFileNames } from "./zip";
+
+const PROJECT_FORMAT = "image-to-pdf-project";
+const PROJECT_VERSION = 1;
+const MANIFEST_NAME = "project.json";
+const FILES_FOLDER = "files";
+
+// How a blob key of the session maps to a file in the archive
+type ProjectFileEntry = {
+  path: string;
+  name: string;
+  type: string;
+  lastModified: number;
+};
+
+type ProjectManifest<T> = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  manifest: T;
+  files: Record<string, ProjectFileEntry>;
+};
+
+// Binary data such as watermark logos is kept as base64 inside the JSON
+type EncodedBytes = { $bytes: string };
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+// JSON that keeps Uint8Arrays, for settings saved as text
+export const encodeJson = (value: unknown, space?: number): string =>
+  JSON.stringify(
+    value,
+    (_key, item) => (item instanceof Uint8Array ? ({ $bytes: toBase64(item) } satisfies EncodedBytes) : item),
+    space
+  );
+
+export const decodeJson = <T>(text: string): T =>
+  JSON.parse(text, (_key, item) =>
+    item && typeof item === "object" && typeof (item as EncodedBytes).$bytes === "string"
+      ? fromBase64((item as EncodedBytes).$bytes)
+      : item
+  );
+
+// Zip a session, naming each blob after its file so the archive is readable on its own
+export const createProjectFile = async <T>(manifest: T, blobs: Map<string, Blob>): Promise<Blob> => {
+  const keys = [...blobs.keys()];
+  const names = uniqueFileNames(keys.map((key) => {
+    const blob = blobs.get(key);
+    return blob instanceof File && blob.name ? blob.name.replace(/[/\\]/g, "_") : key.replace(/[^\w.-]/g, "_");
+  }));
+
+  const files: Record<string, ProjectFileEntry> = {};
+  keys.forEach((key, i) => {
+    const blob = blobs.get(key)!;
+    files[key] = {
+      path: `${FILES_FOLDER}/${names[i]}`,
+      name: blob instanceof File ? blob.name : names[i],
+      type: blob.type,
+      lastModified: blob instanceof File ? blob.lastModified : Date.now(),
+    };
+  });
+
+  const project: ProjectManifest<T> = { format: PROJECT_FORMAT, version: PROJECT_VERSION, manifest, files };
+  return createZip([
+    { name: MANIFEST_NAME, blob: new Blob([encodeJson(project, 2)], { type: "application/json" }), compress: true },
+    ...keys.map((key) => ({ name: files[key].path, blob: blobs.get(key)! })),
+  ]);
+};
+
+// The session inside a project file, with every blob back as a File
+export const readProjectFile = async <T>(file: Blob): Promise<StoredSession<T>> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) =>
+    unzip(data, (error, result) => (error ? reject(new Error("The project file is not a valid ZIP archive")) : resolve(result)))
+  );
+
+  const manifestData = entries[MANIFEST_NAME];
+  if (!manifestData) throw new Error("The ZIP archive is not a project file");
+  const project = decodeJson<ProjectManifest<T>>(new TextDecoder().decode(manifestData));
+  if (project.format !== PROJECT_FORMAT) throw new Error("The ZIP archive is not a project file");
+  if (project.version > PROJECT_VERSION) throw new Error("The project was saved by a newer version of this app");
+
+  const blobs = new Map<string, Blob>();
+  for (const [key, entry] of Object.entries(project.files)) {
+    const bytes = entries[entry.path];
+    if (!bytes) continue;
+    blobs.set(key, new File([bytes as Uint8Array<ArrayBuffer>], entry.name, { type: entry.type, lastModified: entry.lastModified }));
+  }
+  return { manifest: project.manifest, blobs };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { passwordWeaknesses } from "./security";
+
+describe("passwordWeaknesses", () => {
+  it("has nothing to say about an empty password", () => {
+    expect(passwordWeaknesses("")).toEqual([]);
+  });
+
+  it("accepts a long password mixing character classes", () => {
+    expect(passwordWeaknesses("Tide-Pool-42")).toEqual([]);
+    expect(passwordWeaknesses("harbour lights 7")).toEqual([]);
+  });
+
+  it("flags short passwords", () => {
+    expect(passwordWeaknesses("Ab1!")).toEqual(["shorter than 8 characters"]);
+  });
+
+  it("flags passwords with fewer than three character classes", () => {
+    expect(passwordWeaknesses("lowercaseonly")).toEqual(["mix upper and lower case letters, digits and symbols"]);
+  });
+
+  it("flags common patterns", () => {
+    expect(passwordWeaknesses("Password1!")).toEqual(["uses a common pattern"]);
+    expect(passwordWeaknesses("12345678Ab")).toEqual(["uses a common pattern"]);
+    expect(passwordWeaknesses("aaaaaaaaaa")).toContain("uses a common pattern");
+  });
+});
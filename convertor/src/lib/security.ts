@@ -0,0 +1,56 @@
+// Password protection and permission flags for the generated PDF
+import type { EncryptionOptions } from "jspdf";
+
+export type PdfPermission = "print" | "copy" | "modify" | "annotate";
+
+export type PdfSecurity = {
+  // Needed to open the document
+  userPassword?: string;
+  // Needed to change the permissions; a random one is used when empty
+  ownerPassword?: string;
+  // What someone who opened the document with the user password may do
+  permissions: PdfPermission[];
+};
+
+export const ALL_PERMISSIONS: PdfPermission[] = ["print", "copy", "modify", "annotate"];
+
+const jsPdfPermissions: Record<PdfPermission, NonNullable<EncryptionOptions["userPermissions"]>[number]> = {
+  print: "print",
+  copy: "copy",
+  modify: "modify",
+  annotate: "annot-forms",
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Security only does something with a password or a withheld permission
+export const isProtected = (security?: PdfSecurity): boolean =>
+  !!security &&
+  (!!security.userPassword || !!security.ownerPassword || security.permissions.length < ALL_PERMISSIONS.length);
+
+// Without an owner password anyone could lift the restrictions, so lock them with a random one
+const randomPassword = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// jsPDF encryption settings, undefined when the document stays unprotected
+export const toEncryptionOptions = (security?: PdfSecurity): EncryptionOptions | undefined =>
+  isProtected(security) && security
+    ? {
+      userPassword: security.userPassword ?? "",
+      ownerPassword: security.ownerPassword || randomPassword(),
+      userPermissions: security.permissions.map((permission) => jsPdfPermissions[permission]),
+    }
+    : undefined;
+
+// Reasons a password is easy to guess, empty when it looks fine
+export const passwordWeaknesses = (password: string): string[] => {
+  if (!password) return [];
+  const weaknesses: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) weaknesses.push(`shorter than ${MIN_PASSWORD_LENGTH} characters`);
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) => pattern.test(password)).length;
+  if (classes < 3) weaknesses.push("mix upper and lower case letters, digits and symbols");
+  if (/^(.)\1+$/.test(password) || /^(?:0?1234|abcd|qwer|pass)/i.test(password)) {
+    weaknesses.push("uses a common pattern");
+  }
+  return weaknesses;
+};
@@ -0,0 +1,108 @@
+// Working session kept in IndexedDB, so a reload or crash doesn't lose the imported images
+const DB_NAME = "image-to-pdf";
+const DB_VERSION = 1;
+// Image files and other blobs, keyed by the ids the manifest refers to them with
+const BLOB_STORE = "blobs";
+// A single record describing the session: order, edits and settings
+const SESSION_STORE = "session";
+const SESSION_KEY = "current";
+
+export type StoredSession<T> = {
+  manifest: T;
+  blobs: Map<string, Blob>;
+};
+
+export type StorageUsage = {
+  usage: number;
+  quota: number;
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Saving the session was aborted"));
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(BLOB_STORE);
+        req.result.createObjectStore(SESSION_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        // Let the next call try again, for instance after the user allowed storage
+        database = null;
+        reject(req.error);
+      };
+    });
+  }
+  return database;
+};
+
+export const isSessionStorageSupported = (): boolean => typeof indexedDB !== "undefined";
+
+// Replace the saved session. Blobs are written once under their key and removed
+// when the manifest stops referring to them, so saving after every change stays cheap.
+export const saveSession = async <T>(manifest: T, blobs: Map<string, Blob>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BLOB_STORE, SESSION_STORE], "readwrite");
+  const done = transactionDone(tx);
+  const blobStore = tx.objectStore(BLOB_STORE);
+
+  const storedKeys = new Set((await request(blobStore.getAllKeys())).map(String));
+  for (const [key, blob] of blobs) {
+    if (!storedKeys.has(key)) blobStore.put(blob, key);
+  }
+  for (const key of storedKeys) {
+    if (!blobs.has(key)) blobStore.delete(key);
+  }
+  tx.objectStore(SESSION_STORE).put(manifest, SESSION_KEY);
+  await done;
+};
+
+// The saved session, or null when there is none
+export const loadSession = async <T>(): Promise<StoredSession<T> | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BLOB_STORE, SESSION_STORE], "readonly");
+  const manifest = await request<T | undefined>(tx.objectStore(SESSION_STORE).get(SESSION_KEY));
+  if (manifest === undefined) return null;
+
+  const blobStore = tx.objectStore(BLOB_STORE);
+  const [keys, values] = await Promise.all([
+    request(blobStore.getAllKeys()),
+    request<Blob[]>(blobStore.getAll()),
+  ]);
+  return { manifest, blobs: new Map(keys.map((key, i) => [String(key), values[i]])) };
+};
+
+export const clearSession = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([BLOB_STORE, SESSION_STORE], "readwrite");
+  const done = transactionDone(tx);
+  tx.objectStore(BLOB_STORE).clear();
+  tx.objectStore(SESSION_STORE).clear();
+  await done;
+};
+
+// Space used by this site and how much the browser allows, when the browser tells
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
+
+// Ask the browser not to evict the session when space runs low; it may say no
+export const persistStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { exceedsPartSize, partFileNames, startsNewPart } from "./split";
+
+describe("partFileNames", () => {
+  it("keeps the base name for a single PDF", () => {
+    expect(partFileNames("scan", 1)).toEqual(["scan.pdf"]);
+  });
+
+  it("numbers several parts so they sort in order", () => {
+    expect(partFileNames("scan", 3)).toEqual(["scan-01.pdf", "scan-02.pdf", "scan-03.pdf"]);
+    expect(partFileNames("scan", 120)[9]).toBe("scan-010.pdf");
+  });
+
+  it("adds labels such as folders, made safe for file names", () => {
+    expect(partFileNames("scan", 2, ["2024/March", 'Notes: "draft"'])).toEqual([
+      "scan-01 2024 - March.pdf",
+      "scan-02 Notes draft.pdf",
+    ]);
+  });
+
+  it("numbers a single labelled part and uses the given extension", () => {
+    expect(partFileNames("photos", 1, ["Holiday"], "zip")).toEqual(["photos-01 Holiday.zip"]);
+  });
+});
+
+describe("startsNewPart", () => {
+  it("never splits without options or before the first image", () => {
+    expect(startsNewPart(undefined, { images: 5 }, {})).toBe(false);
+    expect(startsNewPart({ mode: "count", count: 1 }, { images: 0 }, {})).toBe(false);
+  });
+
+  it("splits after every count images", () => {
+    const split = { mode: "count", count: 2 } as const;
+    expect(startsNewPart(split, { images: 1 }, {})).toBe(false);
+    expect(startsNewPart(split, { images: 2 }, {})).toBe(true);
+  });
+
+  it("splits at marked images", () => {
+    expect(startsNewPart({ mode: "markers" }, { images: 1 }, { splitBefore: true })).toBe(true);
+    expect(startsNewPart({ mode: "markers" }, { images: 1 }, {})).toBe(false);
+  });
+
+  it("splits when the folder changes", () => {
+    const split = { mode: "folders" } as const;
+    expect(startsNewPart(split, { images: 1, folder: "a" }, { folder: "b" })).toBe(true);
+    expect(startsNewPart(split, { images: 1, folder: "a" }, { folder: "a" })).toBe(false);
+    expect(startsNewPart(split, { images: 1 }, { folder: "" })).toBe(false);
+  });
+
+  it("leaves size splits to exceedsPartSize", () => {
+    expect(startsNewPart({ mode: "size", maxBytes: 1 }, { images: 3 }, {})).toBe(false);
+  });
+});
+
+describe("exceedsPartSize", () => {
+  const split = { mode: "size", maxBytes: 1000 } as const;
+
+  it("splits before a part grows past the limit, with some room to spare", () => {
+    expect(exceedsPartSize(split, 500, 400)).toBe(false);
+    expect(exceedsPartSize(split, 500, 460)).toBe(true);
+  });
+
+  it("keeps an image that is too large on its own in an empty part", () => {
+    expect(exceedsPartSize(split, 0, 5000)).toBe(false);
+  });
+
+  it("only applies to size splits", () => {
+    expect(exceedsPartSize(undefined, 500, 5000)).toBe(false);
+    expect(exceedsPartSize({ mode: "count", count: 2 }, 500, 5000)).toBe(false);
+  });
+});
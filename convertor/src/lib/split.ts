@@ -0,0 +1,81 @@
+// Spreading the converted images over several PDFs
+import { downloadBlob } from "./download";
+import { createZip } from "./zip";
+
+export type SplitOptions =
+  // A new PDF after every `count` images, so 1 gives one PDF per image
+  | { mode: "count"; count: number }
+  // A new PDF at every image marked with splitBefore
+  | { mode: "markers" }
+  // A new PDF before the current one would grow past maxBytes
+  | { mode: "size"; maxBytes: number }
+  // A new PDF whenever the images move on to another folder
+  | { mode: "folders" };
+
+// A finished PDF and, when split by folder, the folder its images came from
+export type ConvertedPdf = {
+  blob: Blob;
+  folder?: string;
+};
+
+// Page object, content stream and cross-reference entries written around each image
+const IMAGE_OVERHEAD_BYTES = 2048;
+// Invisible OCR text is a few operators per word
+const TEXT_LAYER_BYTES_PER_WORD = 64;
+// Catalog, outline, cover pages and overlays aren't counted, so keep some room for them
+const SIZE_SAFETY_RATIO = 0.95;
+
+// Whether an image opens a new PDF, for the splits that are known before it is encoded
+export const startsNewPart = (
+  split: SplitOptions | undefined,
+  part: { images: number; folder?: string },
+  image: { splitBefore?: boolean; folder?: string }
+): boolean => {
+  if (!split || !part.images) return false;
+  if (split.mode === "count") return part.images >= Math.max(1, split.count);
+  if (split.mode === "markers") return !!image.splitBefore;
+  if (split.mode === "folders") return (image.folder ?? "") !== (part.folder ?? "");
+  return false;
+};
+
+// Bytes an image adds to a PDF from the bytes jsPDF embeds for it, close enough to keep
+// parts under a size limit
+export const estimateImageBytes = (embeddedBytes: number, wordCount = 0): number =>
+  embeddedBytes + IMAGE_OVERHEAD_BYTES + wordCount * TEXT_LAYER_BYTES_PER_WORD;
+
+// Whether an encoded image would push a non-empty PDF past the size limit
+export const exceedsPartSize = (
+  split: SplitOptions | undefined,
+  partBytes: number,
+  imageBytes: number
+): boolean =>
+  split?.mode === "size" && partBytes > 0 && partBytes + imageBytes > split.maxBytes * SIZE_SAFETY_RATIO;
+
+// Folder paths become one safe file name segment
+const labelForFileName = (label: string) =>
+  label.replace(/[/\\]+/g, " - ").replace(/[<>:"|?*]/g, "").trim();
+
+// "name-01.pdf", "name-02.pdf"... padded so the files sort in order, plus a label such as the folder
+export const partFileNames = (
+  baseName: string,
+  count: number,
+  labels: (string | undefined)[] = [],
+  extension = "pdf"
+): string[] => {
+  if (count === 1 && !labels[0]) return [`${baseName}.${extension}`];
+  const digits = Math.max(2, String(count).length);
+  return Array.from({ length: count }, (_, i) => {
+    const label = labels[i] ? labelForFileName(labels[i]) : "";
+    return `${baseName}-${String(i + 1).padStart(digits, "0")}${label ? ` ${label}` : ""}.${extension}`;
+  });
+};
+
+// A single PDF downloads as it is, several are bundled into "name.zip"
+export const downloadPdfs = async (pdfs: ConvertedPdf[], baseName: string) => {
+  if (pdfs.length === 1) {
+    downloadBlob(pdfs[0].blob, `${baseName}.pdf`);
+    return;
+  }
+  const names = partFileNames(baseName, pdfs.length, pdfs.map((pdf) => pdf.folder));
+  downloadBlob(await createZip(pdfs.map(({ blob }, i) => ({ name: names[i], blob }))), `${baseName}.zip`);
+};
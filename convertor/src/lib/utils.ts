@@ -0,0 +1,6 @@
+// Small helpers shared by the library modules
+export const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// File name without its extension
+export const baseName = (name: string) => name.replace(/\.[^.]+$/, "");
@@ -0,0 +1,150 @@
+import {
+  convertToPdfs,
+  estimatePdfSize,
+  ConversionCancelledError,
+  ESTIMATE_SAMPLES,
+  type ConversionCallbacks,
+  type ConversionInput,
+  type ConversionOptions,
+  type PreparedImageCache,
+} from "../convertToPdf";
+import { rasterizeVectorInputs } from "../decoders";
+import type { ConvertedPdf } from "../split";
+import type { WorkerRequest, WorkerResponse } from "./protocol";
+
+let worker: Worker | null = null;
+let nextId = 1;
+
+// Resume cache for browsers that have to convert on the main thread
+const fallbackCache: PreparedImageCache = new Map();
+
+// Workers need OffscreenCanvas to decode and re-encode images off the main thread
+export const isWorkerSupported = (): boolean =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL("./convert.worker.ts", import.meta.url), { type: "module" });
+  }
+  return worker;
+};
+
+// Same contract as convertToPdfs, but decoding and PDF assembly run in a worker.
+// The worker keeps its own page cache, so only cacheKeys are needed to resume.
+export const convertInWorker = async (
+  sources: ConversionInput[],
+  options: ConversionOptions,
+  callbacks: ConversionCallbacks = {}
+): Promise<ConvertedPdf[]> => {
+  if (!isWorkerSupported()) {
+    const pdfs = await convertToPdfs(sources, options, { ...callbacks, cache: fallbackCache });
+    fallbackCache.clear();
+    return pdfs;
+  }
+
+  const { onProgress, onItemStatus, signal, cacheKeys } = callbacks;
+  // Workers have no DOM to render SVG with
+  const inputs = await rasterizeVectorInputs(sources, options);
+  if (signal?.aborted) throw new ConversionCancelledError();
+
+  return runInWorker<ConvertedPdf[]>(
+    { type: "convert", id: nextId++, inputs, options, keys: cacheKeys },
+    signal,
+    (message, resolve) => {
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.completed, message.total);
+          break;
+        case "status":
+          onItemStatus?.(message.index, message.status, message.error);
+          break;
+        case "done":
+          resolve(message.pdfs);
+          break;
+      }
+    }
+  );
+};
+
+// Same contract as estimatePdfSize, so sizing the samples doesn't hold up the page
+export const estimateInWorker = async (
+  sources: ConversionInput[],
+  options: ConversionOptions,
+  { signal }: Pick<ConversionCallbacks, "signal"> = {}
+): Promise<number> => {
+  if (!isWorkerSupported()) return estimatePdfSize(sources, options, { signal });
+
+  // Workers have no DOM to render SVG with; only the samples are needed as images
+  const samples = await rasterizeVectorInputs(sources.slice(0, ESTIMATE_SAMPLES), options);
+  if (signal?.aborted) throw new ConversionCancelledError();
+
+  return runInWorker<number>(
+    { type: "estimate", id: nextId++, inputs: sources, options, samples },
+    signal,
+    (message, resolve) => {
+      if (message.type === "estimated") resolve(message.bytes);
+    }
+  );
+};
+
+// Send one job to the worker and settle once it finishes, fails or is cancelled.
+// Everything else the worker reports for the job goes to onMessage.
+const runInWorker = <T>(
+  request: Extract<WorkerRequest, { type: "convert" | "estimate" }>,
+  signal: AbortSignal | undefined,
+  onMessage: (message: WorkerResponse, resolve: (value: T) => void) => void
+): Promise<T> => {
+  const target = getWorker();
+  const { id } = request;
+  const post = (message: WorkerRequest) => target.postMessage(message);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => post({ type: "cancel", id });
+
+    const cleanup = () => {
+      target.removeEventListener("message", onResponse);
+      target.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const onResponse = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      if (message.id !== id) return;
+
+      switch (message.type) {
+        case "cancelled":
+          cleanup();
+          reject(new ConversionCancelledError());
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(message.message));
+          break;
+        default:
+          onMessage(message, (value) => {
+            cleanup();
+            resolve(value);
+          });
+      }
+    };
+
+    // A crashed worker cannot be reused, so drop it and start fresh next time
+    const onError = (e: ErrorEvent) => {
+      cleanup();
+      target.terminate();
+      worker = null;
+      reject(new Error(e.message || "PDF worker failed"));
+    };
+
+    target.addEventListener("message", onResponse);
+    target.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+    post(request);
+  });
+};
+
+// Drop pages the worker kept around for resuming a cancelled conversion
+export const clearConversionCache = () => {
+  fallbackCache.clear();
+  worker?.postMessage({ type: "clear-cache" } satisfies WorkerRequest);
+};
@@ -0,0 +1,60 @@
+import {
+  convertToPdfs,
+  estimatePdfSize,
+  ConversionCancelledError,
+  type PreparedImageCache,
+} from "../convertToPdf";
+import type { WorkerRequest, WorkerResponse } from "./protocol";
+
+const controllers = new Map<number, AbortController>();
+
+// Pages prepared by cancelled or failed runs, reused when the conversion is resumed
+const cache: PreparedImageCache = new Map();
+
+const send = (message: WorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === "cancel") {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  if (request.type === "clear-cache") {
+    cache.clear();
+    return;
+  }
+
+  const { id, inputs, options } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    if (request.type === "estimate") {
+      const bytes = await estimatePdfSize(inputs, options, { signal: controller.signal }, request.samples);
+      send({ type: "estimated", id, bytes });
+      return;
+    }
+
+    const { keys } = request;
+    const pdfs = await convertToPdfs(inputs, options, {
+      signal: controller.signal,
+      cache: keys ? cache : undefined,
+      cacheKeys: keys,
+      onProgress: (completed, total) => send({ type: "progress", id, completed, total }),
+      onItemStatus: (index, status, error) => send({ type: "status", id, index, status, error }),
+    });
+    // The finished document no longer needs its pages kept around
+    cache.clear();
+    send({ type: "done", id, pdfs });
+  } catch (error) {
+    if (error instanceof ConversionCancelledError) {
+      send({ type: "cancelled", id });
+    } else {
+      send({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+};
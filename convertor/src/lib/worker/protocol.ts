@@ -0,0 +1,18 @@
+import type { ConversionInput, ConversionOptions, ItemStatus } from "../convertToPdf";
+import type { ConvertedPdf } from "../split";
+
+// Messages sent from the page to the conversion worker
+export type WorkerRequest =
+  | { type: "convert"; id: number; inputs: ConversionInput[]; options: ConversionOptions; keys?: string[] }
+  | { type: "estimate"; id: number; inputs: ConversionInput[]; options: ConversionOptions; samples: ConversionInput[] }
+  | { type: "cancel"; id: number }
+  | { type: "clear-cache" };
+
+// Messages sent from the conversion worker back to the page
+export type WorkerResponse =
+  | { type: "progress"; id: number; completed: number; total: number }
+  | { type: "status"; id: number; index: number; status: ItemStatus; error?: string }
+  | { type: "done"; id: number; pdfs: ConvertedPdf[] }
+  | { type: "estimated"; id: number; bytes: number }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; message: string };
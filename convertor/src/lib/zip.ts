@@ -0,0 +1,35 @@
+// Packs generated files into one ZIP download
+import { zip, type AsyncZippable } from "fflate";
+
+export type ZipEntry = {
+  name: string;
+  blob: Blob;
+  // Images and PDFs are already compressed, so they are stored as they are by default
+  compress?: boolean;
+};
+
+// Append " (2)", " (3)"... to names that were already used, before the extension
+export const uniqueFileNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const dot = name.lastIndexOf(".");
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : "";
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${extension}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const names = uniqueFileNames(entries.map((entry) => entry.name));
+  const files: AsyncZippable = {};
+  for (const [i, entry] of entries.entries()) {
+    files[names[i]] = [new Uint8Array(await entry.blob.arrayBuffer()), { level: entry.compress ? 6 : 0 }];
+  }
+  const data = await new Promise<Uint8Array>((resolve, reject) =>
+    zip(files, (error, result) => (error ? reject(error) : resolve(result)))
+  );
+  return new Blob([data as Uint8Array<ArrayBuffer>], { type: "application/zip" });
+};
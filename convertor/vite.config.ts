@@ -1,7 +1,22 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { viteStaticCopy } from 'vite-plugin-static-copy'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // OCR must work offline, so Tesseract's worker, wasm core and language data ship with the app
+    viteStaticCopy({
+      targets: [
+        { src: 'node_modules/tesseract.js/dist/worker.min.js', dest: 'tesseract' },
+        { src: 'node_modules/tesseract.js-core/tesseract-core*lstm.wasm.js', dest: 'tesseract/core' },
+        { src: 'node_modules/@tesseract.js-data/*/4.0.0_best_int/*.traineddata.gz', dest: 'tesseract/lang' },
+      ],
+    }),
+  ],
+  // jsPDF lazy-loads optional plugins, which needs code splitting inside the worker
+  worker: {
+    format: 'es',
+  },
 })